@@ -5,14 +5,81 @@ import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
 import type { ListToolsResult } from '@modelcontextprotocol/sdk/types.js';
 
 import { webPageSchema } from '../tools/web-page.js';
+import { webCrawlSchema } from '../tools/web-crawl.js';
+import { webFeedSchema } from '../tools/web-feed.js';
+import { webPageDiffSchema } from '../tools/web-page-diff.js';
 import { webSearchSchema } from '../tools/web-search.js';
+import { webSearchMultiSchema } from '../tools/web-search-multi.js';
+import { webResearchSchema } from '../tools/web-research.js';
+import { searchSuggestionsSchema } from '../tools/search-suggestions.js';
+import { instantAnswerSchema } from '../tools/instant-answer.js';
 import { downloadFilesSchema } from '../tools/download-files.js';
 
+interface RequestOptions {
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  userAgent?: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: string;
+  auth?:
+    | { type: 'basic'; username: string; password: string }
+    | { type: 'bearer'; token: string };
+}
+
 interface WebSearchInput {
   query: string;
   maxResults?: number;
   region?: string;
-  time?: string;
+  time?: 'd' | 'w' | 'm' | 'y';
+  dateFrom?: string;
+  dateTo?: string;
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  fileType?: string;
+  exactPhrase?: string;
+  excludeTerms?: string[];
+  vertical?: 'web' | 'news' | 'images' | 'videos';
+  cursor?: string;
+  provider?: 'duckduckgo' | 'searxng' | 'brave' | 'bing';
+  request?: Omit<RequestOptions, 'method' | 'body'>;
+  maxRetries?: number;
+  retryDelay?: number;
+}
+
+interface WebSearchMultiInput
+  extends Omit<
+    WebSearchInput,
+    'query' | 'maxResults' | 'cursor' | 'vertical' | 'request'
+  > {
+  queries: string[];
+  maxResultsPerQuery?: number;
+  maxResults?: number;
+  concurrency?: number;
+}
+
+interface WebResearchInput
+  extends Omit<
+    WebSearchInput,
+    'maxResults' | 'cursor' | 'vertical' | 'request'
+  > {
+  topN?: number;
+  maxLength?: number;
+  concurrency?: number;
+  render?: 'auto' | 'static' | 'browser';
+}
+
+interface SearchSuggestionsInput {
+  query: string;
+  maxSuggestions?: number;
+  region?: string;
+  includeRelated?: boolean;
+  maxRetries?: number;
+  retryDelay?: number;
+}
+
+interface InstantAnswerInput {
+  query: string;
+  maxRelatedTopics?: number;
   maxRetries?: number;
   retryDelay?: number;
 }
@@ -21,7 +88,61 @@ interface WebPageInput {
   urls: string[];
   includeImages?: boolean;
   includeLinks?: boolean;
+  internalLinksOnly?: boolean;
+  extractionMode?: 'auto' | 'readability' | 'full';
+  selector?: string;
+  excludeSelectors?: string[];
+  extractTables?: boolean;
+  gfmTables?: boolean;
+  jsonPath?: string;
+  format?: 'markdown' | 'text' | 'html' | 'outline';
   maxLength?: number;
+  startIndex?: number;
+  render?: 'auto' | 'static' | 'browser';
+  request?: RequestOptions;
+  maxRetries?: number;
+  retryDelay?: number;
+  concurrency?: number;
+}
+
+interface WebCrawlInput {
+  url: string;
+  maxDepth?: number;
+  maxPages?: number;
+  include?: string[];
+  exclude?: string[];
+  sameDomain?: boolean;
+  sitemap?: boolean;
+  sitemapUrl?: string;
+  maxLength?: number;
+  format?: 'markdown' | 'text' | 'html' | 'outline';
+  extractionMode?: 'auto' | 'readability' | 'full';
+  selector?: string;
+  excludeSelectors?: string[];
+  extractTables?: boolean;
+  gfmTables?: boolean;
+  includeImages?: boolean;
+  includeLinks?: boolean;
+  internalLinksOnly?: boolean;
+}
+
+interface WebFeedInput {
+  urls: string[];
+  since?: string;
+  maxItems?: number;
+  maxRetries?: number;
+  retryDelay?: number;
+  concurrency?: number;
+}
+
+interface WebPageDiffInput {
+  urls: string[];
+  selector?: string;
+  excludeSelectors?: string[];
+  extractionMode?: 'auto' | 'readability' | 'full';
+  gfmTables?: boolean;
+  render?: 'auto' | 'static' | 'browser';
+  contextLines?: number;
   maxRetries?: number;
   retryDelay?: number;
   concurrency?: number;
@@ -31,6 +152,7 @@ interface DownloadFilesInput {
   urls: string[];
   directory: string;
   filenames?: string[];
+  request?: RequestOptions;
   maxRetries?: number;
   retryDelay?: number;
   timeout?: number;
@@ -84,6 +206,38 @@ export class MCPWebToolsClient {
     });
   }
 
+  async searchWebMulti(input: WebSearchMultiInput): Promise<unknown> {
+    const validatedInput = webSearchMultiSchema.parse(input);
+    return await this.client.callTool({
+      name: 'web_search_multi',
+      arguments: validatedInput,
+    });
+  }
+
+  async research(input: WebResearchInput): Promise<unknown> {
+    const validatedInput = webResearchSchema.parse(input);
+    return await this.client.callTool({
+      name: 'web_research',
+      arguments: validatedInput,
+    });
+  }
+
+  async searchSuggestions(input: SearchSuggestionsInput): Promise<unknown> {
+    const validatedInput = searchSuggestionsSchema.parse(input);
+    return await this.client.callTool({
+      name: 'search_suggestions',
+      arguments: validatedInput,
+    });
+  }
+
+  async instantAnswer(input: InstantAnswerInput): Promise<unknown> {
+    const validatedInput = instantAnswerSchema.parse(input);
+    return await this.client.callTool({
+      name: 'instant_answer',
+      arguments: validatedInput,
+    });
+  }
+
   async fetchWebPage(input: WebPageInput): Promise<unknown> {
     const validatedInput = webPageSchema.parse(input);
     return await this.client.callTool({
@@ -92,6 +246,30 @@ export class MCPWebToolsClient {
     });
   }
 
+  async crawlSite(input: WebCrawlInput): Promise<unknown> {
+    const validatedInput = webCrawlSchema.parse(input);
+    return await this.client.callTool({
+      name: 'web_crawl',
+      arguments: validatedInput,
+    });
+  }
+
+  async readFeeds(input: WebFeedInput): Promise<unknown> {
+    const validatedInput = webFeedSchema.parse(input);
+    return await this.client.callTool({
+      name: 'web_feed',
+      arguments: validatedInput,
+    });
+  }
+
+  async diffPages(input: WebPageDiffInput): Promise<unknown> {
+    const validatedInput = webPageDiffSchema.parse(input);
+    return await this.client.callTool({
+      name: 'web_page_diff',
+      arguments: validatedInput,
+    });
+  }
+
   async ping(): Promise<boolean> {
     try {
       await this.client.listTools();
@@ -2,6 +2,49 @@
 export { MCPWebToolsClient } from './client/index.js';
 export { server } from './server/index.js';
 export { webSearchTool, webSearchSchema } from './tools/web-search.js';
+export {
+  webSearchMultiTool,
+  webSearchMultiSchema,
+} from './tools/web-search-multi.js';
+export { webResearchTool, webResearchSchema } from './tools/web-research.js';
+export {
+  searchSuggestionsTool,
+  searchSuggestionsSchema,
+} from './tools/search-suggestions.js';
+export {
+  instantAnswerTool,
+  instantAnswerSchema,
+} from './tools/instant-answer.js';
 export { webPageTool, webPageSchema } from './tools/web-page.js';
+export { webCrawlTool, webCrawlSchema } from './tools/web-crawl.js';
+export { webFeedTool, webFeedSchema } from './tools/web-feed.js';
+export { webPageDiffTool, webPageDiffSchema } from './tools/web-page-diff.js';
+export {
+  SEARCH_PROVIDER_NAMES,
+  loadSearchConfig,
+  createSearchProvider,
+} from './providers/index.js';
+export { loadPolitenessConfig } from './utils/politeness.js';
+export { loadSnapshotConfig } from './utils/snapshots.js';
+export { requestOptionsSchema } from './utils/request.js';
 export type { WebSearchInput } from './tools/web-search.js';
+export type {
+  SearchConfig,
+  SearchProvider,
+  SearchProviderName,
+  SearchResult,
+} from './providers/index.js';
+export type { PolitenessConfig } from './utils/politeness.js';
+export type { SnapshotConfig } from './utils/snapshots.js';
+export type { RequestOptions } from './utils/request.js';
+export type { WebSearchMultiInput } from './tools/web-search-multi.js';
+export type { WebResearchInput, ResearchSource } from './tools/web-research.js';
+export type { SearchSuggestionsInput } from './tools/search-suggestions.js';
+export type { InstantAnswerInput } from './tools/instant-answer.js';
 export type { WebPageInput } from './tools/web-page.js';
+export type { WebCrawlInput, CrawlSummary } from './tools/web-crawl.js';
+export type { WebFeedInput, WebFeedResult } from './tools/web-feed.js';
+export type {
+  WebPageDiffInput,
+  WebPageDiffResult,
+} from './tools/web-page-diff.js';
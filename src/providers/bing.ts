@@ -0,0 +1,116 @@
+import { buildRequestHeaders } from '../utils/request.js';
+import {
+  regionLocale,
+  resolveDateRange,
+  timeRangeToDates,
+  type SearchFilters,
+} from './filters.js';
+import { fetchJson, hostnameOf } from './http.js';
+import type { SearchPage, SearchProvider, SearchRequest } from './types.js';
+
+export const BING_DEFAULT_ENDPOINT =
+  'https://api.bing.microsoft.com/v7.0/search';
+// Bing caps `count` at 50 per request
+const BING_MAX_COUNT = 50;
+// Bing has no "past year" freshness, so that one becomes a date range
+const FRESHNESS = { d: 'Day', w: 'Week', m: 'Month' } as const;
+
+interface BingResponse {
+  webPages?: {
+    totalEstimatedMatches?: number;
+    value?: Array<{
+      name?: string;
+      url?: string;
+      snippet?: string;
+      displayUrl?: string;
+      datePublished?: string;
+    }>;
+  };
+  relatedSearches?: { value?: Array<{ text?: string }> };
+}
+
+/**
+ * Bing Web Search API backend.
+ * @param apiKey - Ocp-Apim-Subscription-Key for the Bing resource
+ * @param endpoint - Override for the web search endpoint
+ */
+export function createBingProvider(
+  apiKey: string,
+  endpoint = BING_DEFAULT_ENDPOINT
+): SearchProvider {
+  return {
+    name: 'bing',
+    async search(request: SearchRequest): Promise<SearchPage> {
+      const url = new URL(endpoint);
+      url.searchParams.set('q', request.query);
+      url.searchParams.set(
+        'count',
+        String(Math.min(request.maxResults, BING_MAX_COUNT))
+      );
+
+      const offset = Number(request.cursor?.offset ?? 0);
+      if (offset > 0) {
+        url.searchParams.set('offset', String(offset));
+      }
+
+      const { filters } = request;
+      const appliedFilters: SearchFilters = {};
+      const locale = regionLocale(filters.region);
+      if (locale) {
+        url.searchParams.set(
+          'mkt',
+          `${locale.language}-${locale.country.toUpperCase()}`
+        );
+        appliedFilters.region = filters.region;
+      }
+      const range = resolveDateRange(filters);
+      if (range) {
+        url.searchParams.set('freshness', `${range.from}..${range.to}`);
+        appliedFilters.dateFrom = filters.dateFrom;
+        appliedFilters.dateTo = filters.dateTo;
+      } else if (filters.time) {
+        if (filters.time === 'y') {
+          const { from, to } = timeRangeToDates(filters.time);
+          url.searchParams.set('freshness', `${from}..${to}`);
+        } else {
+          url.searchParams.set('freshness', FRESHNESS[filters.time]);
+        }
+        appliedFilters.time = filters.time;
+      }
+
+      const data = await fetchJson<BingResponse>(
+        url.toString(),
+        buildRequestHeaders(request.requestOptions, {
+          'Ocp-Apim-Subscription-Key': apiKey,
+        })
+      );
+
+      const value = data.webPages?.value ?? [];
+      const results = value
+        .filter((r) => r.url)
+        .map((r, index) => ({
+          title: r.name?.trim() ?? '',
+          url: r.url!,
+          snippet: r.snippet?.trim() ?? '',
+          source: hostnameOf(r.url!),
+          displayUrl: r.displayUrl,
+          position: index + 1,
+          date: r.datePublished,
+        }));
+
+      const nextOffset = offset + value.length;
+      const hasMore =
+        value.length > 0 &&
+        nextOffset < (data.webPages?.totalEstimatedMatches ?? 0);
+
+      return {
+        results,
+        appliedFilters,
+        nextCursor: hasMore ? { offset: String(nextOffset) } : undefined,
+        related: data.relatedSearches?.value
+          ?.map((r) => r.text)
+          .filter((text): text is string => Boolean(text)),
+      };
+    },
+  };
+}
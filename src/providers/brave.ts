@@ -0,0 +1,100 @@
+import { buildRequestHeaders } from '../utils/request.js';
+import {
+  regionLocale,
+  resolveDateRange,
+  type SearchFilters,
+} from './filters.js';
+import { fetchJson, hostnameOf } from './http.js';
+import type { SearchPage, SearchProvider, SearchRequest } from './types.js';
+
+const BRAVE_ENDPOINT = 'https://api.search.brave.com/res/v1/web/search';
+// Brave caps `count` at 20 per request and `offset` at 9 pages
+const BRAVE_MAX_COUNT = 20;
+const BRAVE_MAX_OFFSET = 9;
+
+interface BraveResponse {
+  query?: { more_results_available?: boolean };
+  web?: {
+    results?: Array<{
+      title?: string;
+      url?: string;
+      description?: string;
+      age?: string;
+      page_age?: string;
+      meta_url?: { hostname?: string; path?: string };
+    }>;
+  };
+}
+
+/**
+ * Brave Search API backend.
+ * @param apiKey - Brave Search subscription token
+ */
+export function createBraveProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'brave',
+    async search(request: SearchRequest): Promise<SearchPage> {
+      const url = new URL(BRAVE_ENDPOINT);
+      url.searchParams.set('q', request.query);
+
+      // `offset` counts pages of `count` results, so the page size must
+      // stay fixed across a paginated search
+      const count =
+        request.cursor?.count ??
+        String(Math.min(request.maxResults, BRAVE_MAX_COUNT));
+      const offset = Number(request.cursor?.offset ?? 0);
+      url.searchParams.set('count', count);
+      if (offset > 0) {
+        url.searchParams.set('offset', String(offset));
+      }
+
+      const { filters } = request;
+      const appliedFilters: SearchFilters = {};
+      const locale = regionLocale(filters.region);
+      if (locale) {
+        url.searchParams.set('country', locale.country);
+        url.searchParams.set('search_lang', locale.language);
+        appliedFilters.region = filters.region;
+      }
+      const range = resolveDateRange(filters);
+      if (range) {
+        url.searchParams.set('freshness', `${range.from}to${range.to}`);
+        appliedFilters.dateFrom = filters.dateFrom;
+        appliedFilters.dateTo = filters.dateTo;
+      } else if (filters.time) {
+        url.searchParams.set('freshness', `p${filters.time}`);
+        appliedFilters.time = filters.time;
+      }
+
+      const data = await fetchJson<BraveResponse>(
+        url.toString(),
+        buildRequestHeaders(request.requestOptions, {
+          'X-Subscription-Token': apiKey,
+        })
+      );
+
+      const results = (data.web?.results ?? [])
+        .filter((r) => r.url)
+        .map((r, index) => ({
+          title: r.title?.trim() ?? '',
+          url: r.url!,
+          snippet: r.description?.trim() ?? '',
+          source: hostnameOf(r.url!),
+          displayUrl: r.meta_url?.hostname
+            ? `${r.meta_url.hostname} ${r.meta_url.path ?? ''}`.trim()
+            : undefined,
+          position: index + 1,
+          date: r.page_age ?? r.age,
+        }));
+
+      const hasMore =
+        data.query?.more_results_available && offset < BRAVE_MAX_OFFSET;
+
+      return {
+        results,
+        appliedFilters,
+        nextCursor: hasMore ? { count, offset: String(offset + 1) } : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,559 @@
+import { Website } from '@spider-rs/spider-rs';
+// Cheerio core
+import * as cheerio from 'cheerio';
+
+import type { RenderPath } from '../utils/render.js';
+import {
+  DEFAULT_USER_AGENT,
+  HTML_ACCEPT,
+  buildRequestHeaders,
+  type RequestOptions,
+} from '../utils/request.js';
+import { resolveDateRange, type SearchFilters } from './filters.js';
+import { fetchHtml, fetchJson, hostnameOf } from './http.js';
+import type {
+  ImageResult,
+  NewsResult,
+  SearchPage,
+  SearchProvider,
+  SearchRequest,
+  SearchResult,
+  SearchVertical,
+  VerticalPage,
+  VerticalResults,
+  VideoResult,
+} from './types.js';
+
+const HTML_ENDPOINT = 'https://duckduckgo.com/html/';
+const LITE_ENDPOINT = 'https://lite.duckduckgo.com/lite/';
+const VQD_ENDPOINT = 'https://duckduckgo.com/';
+const VERTICAL_ENDPOINTS = {
+  news: 'https://duckduckgo.com/news.js',
+  images: 'https://duckduckgo.com/i.js',
+  videos: 'https://duckduckgo.com/v.js',
+} as const;
+const IMAGE_TIME_FILTERS = { d: 'Day', w: 'Week', m: 'Month', y: 'Year' };
+
+const SEARCH_HEADERS = {
+  'User-Agent': DEFAULT_USER_AGENT,
+  Accept: HTML_ACCEPT,
+  'Accept-Language': 'en-US,en;q=0.9',
+  Referer: 'https://duckduckgo.com/',
+};
+
+/**
+ * Fetch a DDG page. The html and lite endpoints work without JavaScript,
+ * so plain HTTP is tried first; the browser is kept for when DDG answers
+ * plain clients with an error or a page without results.
+ */
+async function fetchSearch(
+  url: string,
+  render: RenderPath = 'static',
+  options?: RequestOptions
+) {
+  const headers = buildRequestHeaders(options, SEARCH_HEADERS);
+  if (render === 'static') {
+    return await fetchHtml(url, headers);
+  }
+
+  const w = new Website(url)
+    .withChromeIntercept(true, true)
+    .withBudget({ '*': 1 })
+    .build();
+  w.withHeaders(headers);
+  await w.scrape();
+  return w.getPages()[0] ?? null;
+}
+
+/**
+ * Build a DDG results URL, mapping region onto `kl` and the time
+ * filter or date range onto `df`
+ */
+export function buildSearchUrl(
+  endpoint: string,
+  query: string,
+  filters: SearchFilters
+): string {
+  const url = new URL(endpoint);
+  url.searchParams.set('q', query);
+  if (filters.region) {
+    url.searchParams.set('kl', filters.region);
+  }
+  const range = resolveDateRange(filters);
+  if (range) {
+    url.searchParams.set('df', `${range.from}..${range.to}`);
+  } else if (filters.time) {
+    url.searchParams.set('df', filters.time);
+  }
+  return url.toString();
+}
+
+// Helper to resolve relative URLs and unwrap DDG redirect links
+function resolveResultUrl(
+  hrefAttr: string | undefined,
+  baseUrl: string
+): string | null {
+  if (!hrefAttr) return null;
+
+  try {
+    const url = new URL(hrefAttr, baseUrl);
+
+    if (url.hostname.endsWith('duckduckgo.com') && url.pathname === '/l/') {
+      const targetUrl = url.searchParams.get('uddg');
+      if (targetUrl) return targetUrl;
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// DDG shows dates either as ISO timestamps or as display strings
+function normalizeShownDate(text: string): string | undefined {
+  const cleaned = cleanText(text);
+  if (!cleaned) return undefined;
+  const iso = cleaned.match(/^\d{4}-\d{2}-\d{2}/);
+  return iso ? iso[0] : cleaned;
+}
+
+// JSON endpoints highlight query terms with inline <b> tags
+function stripTags(text: string): string {
+  return cleanText(cheerio.load(text, null, false).text());
+}
+
+function optional(value: string): string | undefined {
+  return value || undefined;
+}
+
+/**
+ * Parse the html.duckduckgo.com layout (`a.result__a` blocks), skipping ads
+ * @param $ - Loaded results page
+ * @param baseUrl - URL the page was served from
+ */
+export function parseHtmlResults(
+  $: cheerio.CheerioAPI,
+  baseUrl: string
+): SearchResult[] {
+  const results: SearchResult[] = [];
+
+  $('a.result__a').each((_, el) => {
+    const $link = $(el);
+    const $result = $link.closest('.result');
+    if ($result.hasClass('result--ad')) return;
+
+    const url = resolveResultUrl($link.attr('href'), baseUrl);
+    if (!url) return;
+
+    results.push({
+      title: cleanText($link.text()),
+      url,
+      snippet: cleanText($result.find('.result__snippet').first().text()),
+      source: new URL(url).hostname,
+      displayUrl: optional(
+        cleanText($result.find('.result__url').first().text())
+      ),
+      position: results.length + 1,
+      date: normalizeShownDate(
+        $result
+          .find(
+            '.result__timestamp, .result__extras__url > span:not(.result__icon)'
+          )
+          .last()
+          .text()
+      ),
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Parse the lite.duckduckgo.com table layout, where each result spans
+ * consecutive rows: link, snippet, then displayed URL and timestamp
+ * @param $ - Loaded results page
+ * @param baseUrl - URL the page was served from
+ */
+export function parseLiteResults(
+  $: cheerio.CheerioAPI,
+  baseUrl: string
+): SearchResult[] {
+  const results: SearchResult[] = [];
+
+  $('td.result-link > a, a.result-link').each((_, el) => {
+    const $link = $(el);
+    const url = resolveResultUrl($link.attr('href'), baseUrl);
+    if (!url) return;
+
+    // Collect the rows belonging to this result, up to the next result link
+    const $rows = $link.closest('tr').nextUntil('tr:has(.result-link)', 'tr');
+
+    results.push({
+      title: cleanText($link.text()),
+      url,
+      snippet: cleanText($rows.find('.result-snippet').first().text()),
+      source: new URL(url).hostname,
+      displayUrl: optional(cleanText($rows.find('.link-text').first().text())),
+      position: results.length + 1,
+      date: normalizeShownDate($rows.find('.timestamp').first().text()),
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Read the hidden inputs (`s`, `dc`, `vqd`, ...) of the "Next" form so the
+ * following page can be requested. Cursors come back from clients, so
+ * only the form's layout is kept as `layout` ('html' or 'lite'), never
+ * its action URL.
+ * @returns undefined on the last page
+ */
+export function parseNextPageParams(
+  $: cheerio.CheerioAPI,
+  baseUrl: string
+): Record<string, string> | undefined {
+  const $form = $('form')
+    .filter((_, form) =>
+      $(form)
+        .find('input[type="submit"]')
+        .toArray()
+        .some((input) => /next/i.test($(input).attr('value') ?? ''))
+    )
+    .first();
+  if (!$form.length) return undefined;
+
+  const action = new URL($form.attr('action') || baseUrl, baseUrl);
+  const lite =
+    action.hostname === 'lite.duckduckgo.com' ||
+    action.pathname.startsWith('/lite');
+  const params: Record<string, string> = { layout: lite ? 'lite' : 'html' };
+  $form.find('input[type="hidden"][name]').each((_, input) => {
+    params[$(input).attr('name')!] = $(input).attr('value') ?? '';
+  });
+  return params;
+}
+
+/**
+ * Rebuild the next-page URL from a cursor on DDG's own endpoints
+ */
+export function buildNextPageUrl(params: Record<string, string>): string {
+  const { layout, ...hidden } = params;
+  const url = new URL(layout === 'lite' ? LITE_ENDPOINT : HTML_ENDPOINT);
+  for (const [name, value] of Object.entries(hidden)) {
+    url.searchParams.set(name, value);
+  }
+  return url.toString();
+}
+
+/**
+ * Read the "related searches" block shown below the results
+ * @param $ - Loaded results page
+ * @returns Unique suggested queries in page order
+ */
+export function parseRelatedSearches($: cheerio.CheerioAPI): string[] {
+  const related = new Set<string>();
+  $('[class*="related-searches"] a, .related a').each((_, el) => {
+    const text = cleanText($(el).text());
+    if (text) related.add(text);
+  });
+  return [...related];
+}
+
+// Load once, then try the html layout before the lite layout
+function parseResultsPage(
+  content: string,
+  baseUrl: string
+): Pick<SearchPage, 'results' | 'nextCursor' | 'related'> {
+  const $ = cheerio.load(content);
+  const html = parseHtmlResults($, baseUrl);
+  return {
+    results: html.length ? html : parseLiteResults($, baseUrl),
+    nextCursor: parseNextPageParams($, baseUrl),
+    related: parseRelatedSearches($),
+  };
+}
+
+type ParsedResults = ReturnType<typeof parseResultsPage>;
+
+/**
+ * Fetch and parse the results for a query, falling back from the html
+ * endpoint to the lite one
+ * @returns undefined when no page could be retrieved
+ */
+async function fetchResults(
+  htmlUrl: string,
+  liteUrl: string,
+  render: RenderPath,
+  options?: RequestOptions
+): Promise<ParsedResults | undefined> {
+  let page = await fetchSearch(htmlUrl, render, options);
+
+  // Fallback to lite version if needed
+  if (!page?.content || (page.statusCode && page.statusCode >= 400)) {
+    page = await fetchSearch(liteUrl, render, options);
+  }
+
+  if (!page) return undefined;
+
+  let parsed = parseResultsPage(page.content || '', page.url);
+
+  // Last resort – retry lite interface directly if not already done
+  if (!parsed.results.length) {
+    const litePage = await fetchSearch(liteUrl, render, options);
+    if (litePage && litePage.content) {
+      parsed = parseResultsPage(litePage.content, litePage.url);
+    }
+  }
+
+  return parsed;
+}
+
+async function searchDuckDuckGo(request: SearchRequest): Promise<SearchPage> {
+  const { query, filters, cursor, requestOptions } = request;
+
+  // Continuation pages replay the previous page's "Next" form, which
+  // already carries the region and date filters
+  if (cursor) {
+    const url = buildNextPageUrl(cursor);
+    let page = await fetchSearch(url, 'static', requestOptions).catch(
+      () => null
+    );
+    if (!page?.content || page.statusCode >= 400) {
+      page = await fetchSearch(url, 'browser', requestOptions);
+    }
+    if (!page?.content) {
+      throw new Error(`No results retrieved for query "${query}"`);
+    }
+    return {
+      ...parseResultsPage(page.content, page.url),
+      appliedFilters: { ...filters },
+    };
+  }
+
+  const htmlUrl = buildSearchUrl(HTML_ENDPOINT, query, filters);
+  const liteUrl = buildSearchUrl(LITE_ENDPOINT, query, filters);
+
+  // The browser is only started when plain HTTP gets no results, e.g.
+  // when DDG serves a challenge page instead
+  let parsed = await fetchResults(
+    htmlUrl,
+    liteUrl,
+    'static',
+    requestOptions
+  ).catch(() => undefined);
+  if (!parsed?.results.length) {
+    parsed = await fetchResults(htmlUrl, liteUrl, 'browser', requestOptions);
+  }
+
+  if (!parsed) {
+    throw new Error(`No results retrieved for query "${query}"`);
+  }
+  if (!parsed.results.length) {
+    throw new Error(`No search results parsed for query "${query}".`);
+  }
+
+  // DDG understands every filter natively
+  return {
+    ...parsed,
+    appliedFilters: { ...filters },
+  };
+}
+
+/**
+ * Extract the `vqd` token DDG requires for its JSON vertical endpoints
+ * @param content - HTML of a duckduckgo.com results page
+ */
+export function extractVqd(content: string): string | null {
+  const match =
+    content.match(/vqd=["']?([\d-]+)["']?/) ??
+    content.match(/"vqd"\s*:\s*"([\d-]+)"/);
+  return match ? match[1] : null;
+}
+
+interface DdgNewsItem {
+  title?: string;
+  url?: string;
+  excerpt?: string;
+  source?: string;
+  /** Unix timestamp in seconds */
+  date?: number;
+  image?: string;
+}
+
+interface DdgImageItem {
+  title?: string;
+  url?: string;
+  image?: string;
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+}
+
+interface DdgVideoItem {
+  title?: string;
+  content?: string;
+  description?: string;
+  publisher?: string;
+  uploader?: string;
+  duration?: string;
+  published?: string;
+  embed_url?: string;
+  images?: { large?: string; medium?: string; small?: string };
+  statistics?: { viewCount?: number | null };
+}
+
+/**
+ * Map a DDG vertical JSON payload onto the typed result shape of that vertical
+ * @param vertical - Vertical the payload came from
+ * @param data - Parsed JSON response
+ */
+export function parseVerticalResults(
+  vertical: Exclude<SearchVertical, 'web'>,
+  data: { results?: unknown[] }
+): VerticalResults {
+  const items = data.results ?? [];
+
+  switch (vertical) {
+    case 'news': {
+      const results: NewsResult[] = (items as DdgNewsItem[])
+        .filter((item) => item.url)
+        .map((item, index) => ({
+          title: cleanText(item.title ?? ''),
+          url: item.url!,
+          snippet: stripTags(item.excerpt ?? ''),
+          source: hostnameOf(item.url!),
+          publisher: item.source || undefined,
+          publishedAt: item.date
+            ? new Date(item.date * 1000).toISOString()
+            : undefined,
+          imageUrl: item.image || undefined,
+          position: index + 1,
+        }));
+      return { vertical, results };
+    }
+    case 'images': {
+      const results: ImageResult[] = (items as DdgImageItem[])
+        .filter((item) => item.image && item.url)
+        .map((item, index) => ({
+          title: cleanText(item.title ?? ''),
+          url: item.url!,
+          source: hostnameOf(item.url!),
+          imageUrl: item.image!,
+          thumbnailUrl: item.thumbnail || undefined,
+          width: item.width,
+          height: item.height,
+          position: index + 1,
+        }));
+      return { vertical, results };
+    }
+    case 'videos': {
+      const results: VideoResult[] = (items as DdgVideoItem[])
+        .filter((item) => item.content)
+        .map((item, index) => ({
+          title: cleanText(item.title ?? ''),
+          url: item.content!,
+          description: stripTags(item.description ?? ''),
+          source: hostnameOf(item.content!),
+          publisher: item.publisher || undefined,
+          uploader: item.uploader || undefined,
+          duration: item.duration || undefined,
+          publishedAt: item.published || undefined,
+          thumbnailUrl: item.images?.medium || item.images?.small || undefined,
+          embedUrl: item.embed_url || undefined,
+          viewCount: item.statistics?.viewCount ?? undefined,
+          position: index + 1,
+        }));
+      return { vertical, results };
+    }
+  }
+}
+
+/**
+ * Build a vertical endpoint URL. Only relative time filters are supported
+ * there: news and videos accept d/w/m, images also accept y.
+ */
+function buildVerticalUrl(
+  vertical: Exclude<SearchVertical, 'web'>,
+  query: string,
+  vqd: string,
+  filters: SearchFilters
+): { url: string; appliedFilters: SearchFilters } {
+  const url = new URL(VERTICAL_ENDPOINTS[vertical]);
+  url.searchParams.set('q', query);
+  url.searchParams.set('vqd', vqd);
+  url.searchParams.set('o', 'json');
+  url.searchParams.set('l', filters.region ?? 'wt-wt');
+
+  const appliedFilters: SearchFilters = {};
+  if (filters.region) appliedFilters.region = filters.region;
+
+  const { time } = filters;
+  if (time && vertical === 'images') {
+    url.searchParams.set('f', `time:${IMAGE_TIME_FILTERS[time]}`);
+    appliedFilters.time = time;
+  } else if (time && time !== 'y') {
+    if (vertical === 'news') {
+      url.searchParams.set('df', time);
+    } else {
+      url.searchParams.set('f', `publishedAfter:${time}`);
+    }
+    appliedFilters.time = time;
+  }
+
+  return { url: url.toString(), appliedFilters };
+}
+
+async function searchDuckDuckGoVertical(
+  vertical: Exclude<SearchVertical, 'web'>,
+  request: SearchRequest
+): Promise<VerticalPage> {
+  const { query, filters, requestOptions } = request;
+
+  // The JSON endpoints reject requests without a token from a results page
+  const tokenUrl = `${VQD_ENDPOINT}?q=${encodeURIComponent(query)}`;
+  const page = await fetchSearch(tokenUrl, 'static', requestOptions).catch(
+    () => null
+  );
+  let vqd = page?.content ? extractVqd(page.content) : null;
+  if (!vqd) {
+    const rendered = await fetchSearch(tokenUrl, 'browser', requestOptions);
+    vqd = rendered?.content ? extractVqd(rendered.content) : null;
+  }
+  if (!vqd) {
+    throw new Error(
+      `Could not obtain a DuckDuckGo search token for "${query}"`
+    );
+  }
+
+  const { url, appliedFilters } = buildVerticalUrl(
+    vertical,
+    query,
+    vqd,
+    filters
+  );
+  const data = await fetchJson<{ results?: unknown[] }>(
+    url,
+    buildRequestHeaders(requestOptions, {
+      ...SEARCH_HEADERS,
+      Accept: 'application/json',
+      Referer: 'https://duckduckgo.com/',
+    })
+  );
+
+  return { ...parseVerticalResults(vertical, data), appliedFilters };
+}
+
+/**
+ * DuckDuckGo backend scraping the html/lite result pages. Needs no API key.
+ */
+export function createDuckDuckGoProvider(): SearchProvider {
+  return {
+    name: 'duckduckgo',
+    search: searchDuckDuckGo,
+    searchVertical: searchDuckDuckGoVertical,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * DuckDuckGo region codes (`kl` parameter). `wt-wt` means no region.
+ */
+export const SEARCH_REGIONS = [
+  'wt-wt',
+  'xa-ar',
+  'xa-en',
+  'ar-es',
+  'au-en',
+  'at-de',
+  'be-fr',
+  'be-nl',
+  'br-pt',
+  'bg-bg',
+  'ca-en',
+  'ca-fr',
+  'ct-ca',
+  'cl-es',
+  'cn-zh',
+  'co-es',
+  'hr-hr',
+  'cz-cs',
+  'dk-da',
+  'ee-et',
+  'fi-fi',
+  'fr-fr',
+  'de-de',
+  'gr-el',
+  'hk-tzh',
+  'hu-hu',
+  'in-en',
+  'id-id',
+  'id-en',
+  'ie-en',
+  'il-he',
+  'it-it',
+  'jp-jp',
+  'kr-kr',
+  'lv-lv',
+  'lt-lt',
+  'xl-es',
+  'my-ms',
+  'my-en',
+  'mx-es',
+  'nl-nl',
+  'nz-en',
+  'no-no',
+  'pe-es',
+  'ph-en',
+  'ph-tl',
+  'pl-pl',
+  'pt-pt',
+  'ro-ro',
+  'ru-ru',
+  'sg-en',
+  'sk-sk',
+  'sl-sl',
+  'za-en',
+  'es-es',
+  'se-sv',
+  'ch-de',
+  'ch-fr',
+  'ch-it',
+  'tw-tzh',
+  'th-th',
+  'tr-tr',
+  'ua-uk',
+  'uk-en',
+  'us-en',
+  'ue-es',
+  've-es',
+  'vn-vi',
+] as const;
+
+export type SearchRegion = (typeof SEARCH_REGIONS)[number];
+
+/** Past day, week, month or year */
+export const SEARCH_TIME_RANGES = ['d', 'w', 'm', 'y'] as const;
+
+export type SearchTimeRange = (typeof SEARCH_TIME_RANGES)[number];
+
+export interface SearchFilters {
+  region?: SearchRegion;
+  time?: SearchTimeRange;
+  /** Inclusive start date (YYYY-MM-DD) */
+  dateFrom?: string;
+  /** Inclusive end date (YYYY-MM-DD) */
+  dateTo?: string;
+}
+
+// Pseudo-regions that do not correspond to a single country
+const MULTI_COUNTRY_PREFIXES = new Set(['wt', 'xa', 'xl', 'ue', 'ct']);
+// DDG language suffixes that differ from ISO 639-1
+const LANGUAGE_ALIASES: Record<string, string> = {
+  tzh: 'zh',
+  jp: 'ja',
+  kr: 'ko',
+};
+// DDG country prefixes that differ from ISO 3166-1
+const COUNTRY_ALIASES: Record<string, string> = { uk: 'gb', sl: 'si' };
+
+/**
+ * Split a DDG region code into ISO country and language codes
+ * for providers that take them separately.
+ * @returns null for `wt-wt` or multi-country pseudo-regions
+ */
+export function regionLocale(
+  region: SearchRegion | undefined
+): { country: string; language: string } | null {
+  if (!region) return null;
+  const [country, language] = region.split('-');
+  if (MULTI_COUNTRY_PREFIXES.has(country)) return null;
+
+  return {
+    country: COUNTRY_ALIASES[country] ?? country,
+    language: LANGUAGE_ALIASES[language] ?? language,
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the requested dates into a closed range.
+ * A missing end defaults to today, a missing start to the earliest
+ * date search engines index.
+ * @returns null when neither bound is set
+ */
+export function resolveDateRange(
+  filters: SearchFilters,
+  now = new Date()
+): { from: string; to: string } | null {
+  if (!filters.dateFrom && !filters.dateTo) return null;
+  return {
+    from: filters.dateFrom ?? '1990-01-01',
+    to: filters.dateTo ?? formatDate(now),
+  };
+}
+
+/**
+ * Convert a relative time range into a date range ending today
+ */
+export function timeRangeToDates(
+  time: SearchTimeRange,
+  now = new Date()
+): { from: string; to: string } {
+  const from = new Date(now);
+  switch (time) {
+    case 'd':
+      from.setUTCDate(from.getUTCDate() - 1);
+      break;
+    case 'w':
+      from.setUTCDate(from.getUTCDate() - 7);
+      break;
+    case 'm':
+      from.setUTCMonth(from.getUTCMonth() - 1);
+      break;
+    case 'y':
+      from.setUTCFullYear(from.getUTCFullYear() - 1);
+      break;
+  }
+  return { from: formatDate(from), to: formatDate(now) };
+}
+
+/**
+ * Normalize user input: `wt-wt` means "no region", and an explicit
+ * date range takes precedence over a relative time filter.
+ * @throws with statusCode 400 when dateFrom is after dateTo
+ */
+export function normalizeFilters(filters: SearchFilters): SearchFilters {
+  // YYYY-MM-DD dates sort as strings
+  if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    throw Object.assign(
+      new Error(
+        `dateFrom (${filters.dateFrom}) is after dateTo (${filters.dateTo})`
+      ),
+      { statusCode: 400 }
+    );
+  }
+
+  const normalized: SearchFilters = {};
+  if (filters.region && filters.region !== 'wt-wt') {
+    normalized.region = filters.region;
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    if (filters.dateFrom) normalized.dateFrom = filters.dateFrom;
+    if (filters.dateTo) normalized.dateTo = filters.dateTo;
+  } else if (filters.time) {
+    normalized.time = filters.time;
+  }
+  return normalized;
+}
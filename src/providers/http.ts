@@ -0,0 +1,78 @@
+import fetch from 'node-fetch';
+
+const DEFAULT_TIMEOUT = 15000;
+
+/**
+ * Fetch and parse a JSON API response.
+ * Errors carry the HTTP status code so withRetry can skip fatal 4xx failures.
+ * @param url - Endpoint to request
+ * @param headers - Extra request headers (API keys, Accept)
+ * @param timeout - Request timeout in milliseconds
+ */
+export async function fetchJson<T>(
+  url: string,
+  headers: Record<string, string> = {},
+  timeout = DEFAULT_TIMEOUT
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: 'application/json', ...headers },
+    });
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`HTTP ${response.status}: ${response.statusText}`),
+        { statusCode: response.status }
+      );
+    }
+
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch a page over plain HTTP, without a browser. Error statuses are
+ * returned rather than thrown so callers can try another endpoint.
+ * @param url - Page to request
+ * @param headers - Extra request headers (User-Agent, Referer)
+ * @param timeout - Request timeout in milliseconds
+ */
+export async function fetchHtml(
+  url: string,
+  headers: Record<string, string> = {},
+  timeout = DEFAULT_TIMEOUT
+): Promise<{ url: string; content: string; statusCode: number }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: 'text/html,application/xhtml+xml', ...headers },
+    });
+    return {
+      url: response.url || url,
+      content: await response.text(),
+      statusCode: response.status,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Hostname of a URL, or an empty string when it cannot be parsed
+ */
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
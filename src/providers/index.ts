@@ -0,0 +1,131 @@
+import { createBingProvider } from './bing.js';
+import { createBraveProvider } from './brave.js';
+import { createDuckDuckGoProvider } from './duckduckgo.js';
+import { createSearxngProvider } from './searxng.js';
+import {
+  SEARCH_PROVIDER_NAMES,
+  SEARCH_VERTICALS,
+  type SearchConfig,
+  type SearchProvider,
+  type SearchProviderName,
+} from './types.js';
+
+export { SEARCH_PROVIDER_NAMES, SEARCH_VERTICALS };
+export {
+  SEARCH_REGIONS,
+  SEARCH_TIME_RANGES,
+  normalizeFilters,
+} from './filters.js';
+export type {
+  SearchFilters,
+  SearchRegion,
+  SearchTimeRange,
+} from './filters.js';
+export type {
+  ImageResult,
+  NewsResult,
+  SearchConfig,
+  SearchProvider,
+  SearchPage,
+  SearchProviderName,
+  SearchRequest,
+  SearchResult,
+  SearchVertical,
+  VerticalPage,
+  VerticalResults,
+  VideoResult,
+} from './types.js';
+
+function isProviderName(value: string): value is SearchProviderName {
+  return (SEARCH_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Read search backend configuration from the environment.
+ *
+ * - `MCP_SEARCH_PROVIDERS`: comma-separated fallback order
+ *   (default: duckduckgo,searxng,brave,bing)
+ * - `SEARXNG_URL`: base URL of a SearXNG instance
+ * - `BRAVE_SEARCH_API_KEY`: Brave Search API token
+ * - `BING_SEARCH_API_KEY` / `BING_SEARCH_ENDPOINT`: Bing Web Search credentials
+ */
+export function loadSearchConfig(
+  env: Record<string, string | undefined> = process.env
+): SearchConfig {
+  const order = (env.MCP_SEARCH_PROVIDERS ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(isProviderName);
+
+  return {
+    providers: order.length ? [...new Set(order)] : [...SEARCH_PROVIDER_NAMES],
+    searxngUrl: env.SEARXNG_URL || undefined,
+    braveApiKey: env.BRAVE_SEARCH_API_KEY || undefined,
+    bingApiKey: env.BING_SEARCH_API_KEY || undefined,
+    bingEndpoint: env.BING_SEARCH_ENDPOINT || undefined,
+  };
+}
+
+/**
+ * Instantiate a provider, or return null when its credentials are missing
+ */
+export function createSearchProvider(
+  name: SearchProviderName,
+  config: SearchConfig
+): SearchProvider | null {
+  switch (name) {
+    case 'duckduckgo':
+      return createDuckDuckGoProvider();
+    case 'searxng':
+      return config.searxngUrl
+        ? createSearxngProvider(config.searxngUrl)
+        : null;
+    case 'brave':
+      return config.braveApiKey
+        ? createBraveProvider(config.braveApiKey)
+        : null;
+    case 'bing':
+      return config.bingApiKey
+        ? createBingProvider(config.bingApiKey, config.bingEndpoint)
+        : null;
+  }
+}
+
+/**
+ * Build the ordered list of providers to try for a search.
+ * An explicitly requested provider goes first and must be configured;
+ * the remaining configured providers follow in fallback order.
+ * @param config - Search backend configuration
+ * @param preferred - Provider requested by the caller
+ */
+export function resolveSearchProviders(
+  config: SearchConfig,
+  preferred?: SearchProviderName
+): SearchProvider[] {
+  const providers: SearchProvider[] = [];
+
+  if (preferred) {
+    const provider = createSearchProvider(preferred, config);
+    if (!provider) {
+      throw Object.assign(
+        new Error(`Search provider "${preferred}" is not configured`),
+        { statusCode: 400 }
+      );
+    }
+    providers.push(provider);
+  }
+
+  for (const name of config.providers) {
+    if (name === preferred) continue;
+    const provider = createSearchProvider(name, config);
+    if (provider) providers.push(provider);
+  }
+
+  if (!providers.length) {
+    throw Object.assign(new Error('No search providers are configured'), {
+      statusCode: 400,
+    });
+  }
+
+  return providers;
+}
@@ -0,0 +1,90 @@
+export interface QueryOperators {
+  /** Only return results from these domains (subdomains included) */
+  includeDomains?: string[];
+  /** Never return results from these domains (subdomains included) */
+  excludeDomains?: string[];
+  /** Restrict results to a file extension such as pdf */
+  fileType?: string;
+  /** Phrase that must appear verbatim */
+  exactPhrase?: string;
+  /** Terms that must not appear */
+  excludeTerms?: string[];
+}
+
+/**
+ * Reduce user-supplied domains like `https://www.Example.com/docs` to a
+ * bare hostname
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '');
+}
+
+function quote(term: string): string {
+  const cleaned = term.replace(/"/g, '').trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Compile structured operators into the `site:`/`filetype:`/quote syntax
+ * understood by DuckDuckGo, SearXNG, Brave and Bing
+ * @param query - Free-text query
+ * @param operators - Structured operators to append
+ */
+export function compileQuery(query: string, operators: QueryOperators): string {
+  const parts = [query.trim()];
+
+  const phrase = operators.exactPhrase?.replace(/"/g, '').trim();
+  if (phrase) {
+    parts.push(`"${phrase}"`);
+  }
+  for (const term of operators.excludeTerms ?? []) {
+    if (term.trim()) parts.push(`-${quote(term)}`);
+  }
+
+  const include = (operators.includeDomains ?? [])
+    .map(normalizeDomain)
+    .filter(Boolean);
+  if (include.length) {
+    parts.push(include.map((domain) => `site:${domain}`).join(' OR '));
+  }
+  for (const domain of (operators.excludeDomains ?? []).map(normalizeDomain)) {
+    if (domain) parts.push(`-site:${domain}`);
+  }
+
+  const fileType = operators.fileType?.trim().replace(/^\./, '').toLowerCase();
+  if (fileType) {
+    parts.push(`filetype:${fileType}`);
+  }
+
+  return parts.filter(Boolean).join(' ');
+}
+
+function hostMatches(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Check a result hostname against the domain allow/deny lists, so that a
+ * provider ignoring `site:` operators cannot leak excluded domains
+ */
+export function matchesDomainFilters(
+  hostname: string,
+  operators: QueryOperators
+): boolean {
+  const host = normalizeDomain(hostname);
+  const include = (operators.includeDomains ?? []).map(normalizeDomain);
+  const exclude = (operators.excludeDomains ?? []).map(normalizeDomain);
+
+  if (exclude.some((domain) => domain && hostMatches(host, domain))) {
+    return false;
+  }
+  return (
+    !include.some(Boolean) ||
+    include.some((domain) => domain && hostMatches(host, domain))
+  );
+}
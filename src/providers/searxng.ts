@@ -0,0 +1,80 @@
+import { buildRequestHeaders } from '../utils/request.js';
+import { regionLocale, type SearchFilters } from './filters.js';
+import { fetchJson, hostnameOf } from './http.js';
+import type { SearchPage, SearchProvider, SearchRequest } from './types.js';
+
+const TIME_RANGES = { d: 'day', w: 'week', m: 'month', y: 'year' } as const;
+
+interface SearxngResponse {
+  results?: Array<{
+    title?: string;
+    url?: string;
+    content?: string;
+    publishedDate?: string | null;
+  }>;
+  suggestions?: string[];
+}
+
+/**
+ * SearXNG backend using the instance's JSON API.
+ * The instance must have the `json` output format enabled.
+ * @param baseUrl - Base URL of the SearXNG instance
+ */
+export function createSearxngProvider(baseUrl: string): SearchProvider {
+  return {
+    name: 'searxng',
+    async search(request: SearchRequest): Promise<SearchPage> {
+      const url = new URL(
+        'search',
+        baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`
+      );
+      url.searchParams.set('q', request.query);
+      url.searchParams.set('format', 'json');
+
+      const pageno = Number(request.cursor?.pageno ?? 1);
+      if (pageno > 1) {
+        url.searchParams.set('pageno', String(pageno));
+      }
+
+      // SearXNG has no custom date ranges, only relative time ranges
+      const { region, time } = request.filters;
+      const appliedFilters: SearchFilters = {};
+      const locale = regionLocale(region);
+      if (locale) {
+        url.searchParams.set(
+          'language',
+          `${locale.language}-${locale.country.toUpperCase()}`
+        );
+        appliedFilters.region = region;
+      }
+      if (time) {
+        url.searchParams.set('time_range', TIME_RANGES[time]);
+        appliedFilters.time = time;
+      }
+
+      const data = await fetchJson<SearxngResponse>(
+        url.toString(),
+        buildRequestHeaders(request.requestOptions)
+      );
+
+      const results = (data.results ?? [])
+        .filter((r) => r.url)
+        .map((r, index) => ({
+          title: r.title?.trim() ?? '',
+          url: r.url!,
+          snippet: r.content?.trim() ?? '',
+          source: hostnameOf(r.url!),
+          position: index + 1,
+          date: r.publishedDate ?? undefined,
+        }));
+
+      return {
+        results,
+        appliedFilters,
+        // SearXNG does not report a total, so keep paging while results come
+        nextCursor: results.length ? { pageno: String(pageno + 1) } : undefined,
+        related: data.suggestions,
+      };
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import type { RequestOptions } from '../utils/request.js';
+import type { SearchFilters } from './filters.js';
+
+export const SEARCH_PROVIDER_NAMES = [
+  'duckduckgo',
+  'searxng',
+  'brave',
+  'bing',
+] as const;
+
+export type SearchProviderName = (typeof SEARCH_PROVIDER_NAMES)[number];
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  source: string;
+  /** URL as displayed by the engine, often shortened */
+  displayUrl?: string;
+  /** 1-based rank in the engine's result list */
+  position: number;
+  /** Publication date shown next to the result, when the engine has one */
+  date?: string;
+}
+
+export const SEARCH_VERTICALS = ['web', 'news', 'images', 'videos'] as const;
+
+export type SearchVertical = (typeof SEARCH_VERTICALS)[number];
+
+export interface NewsResult {
+  title: string;
+  url: string;
+  snippet: string;
+  source: string;
+  publisher?: string;
+  /** ISO 8601 publication timestamp */
+  publishedAt?: string;
+  imageUrl?: string;
+  position: number;
+}
+
+export interface ImageResult {
+  title: string;
+  /** Page the image appears on */
+  url: string;
+  source: string;
+  imageUrl: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  position: number;
+}
+
+export interface VideoResult {
+  title: string;
+  url: string;
+  description: string;
+  source: string;
+  publisher?: string;
+  uploader?: string;
+  /** Duration as displayed, e.g. 12:34 */
+  duration?: string;
+  /** ISO 8601 publication timestamp */
+  publishedAt?: string;
+  thumbnailUrl?: string;
+  embedUrl?: string;
+  viewCount?: number;
+  position: number;
+}
+
+/** Results of a non-web vertical, tagged with the vertical they belong to */
+export type VerticalResults =
+  | { vertical: 'news'; results: NewsResult[] }
+  | { vertical: 'images'; results: ImageResult[] }
+  | { vertical: 'videos'; results: VideoResult[] };
+
+export type VerticalPage = VerticalResults & {
+  appliedFilters: SearchFilters;
+};
+
+export interface SearchRequest {
+  query: string;
+  /** Page size hint; callers trim and paginate the results themselves */
+  maxResults: number;
+  filters: SearchFilters;
+  /** Provider-specific state for fetching a later page */
+  cursor?: Record<string, string>;
+  /** Headers, cookies, user agent and auth sent to the engine */
+  requestOptions?: RequestOptions;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  /** Filters the provider actually passed on to the engine */
+  appliedFilters: SearchFilters;
+  /** State for the following page, absent on the last page */
+  nextCursor?: Record<string, string>;
+  /** Related queries suggested by the engine, when it reports any */
+  related?: string[];
+}
+
+/**
+ * A search backend. Every provider maps its own response format onto the
+ * shared SearchResult shape so callers never depend on a specific engine.
+ */
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  search(request: SearchRequest): Promise<SearchPage>;
+  /** News, image and video search, for providers that support them */
+  searchVertical?(
+    vertical: Exclude<SearchVertical, 'web'>,
+    request: SearchRequest
+  ): Promise<VerticalPage>;
+}
+
+export interface SearchConfig {
+  /** Providers to try, in fallback order */
+  providers: SearchProviderName[];
+  searxngUrl?: string;
+  braveApiKey?: string;
+  bingApiKey?: string;
+  bingEndpoint?: string;
+}
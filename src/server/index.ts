@@ -9,7 +9,36 @@ import {
 import { z } from 'zod';
 
 import { webPageTool, webPageSchema } from '../tools/web-page.js';
+import { webFeedTool, webFeedSchema } from '../tools/web-feed.js';
+import { webCrawlTool, webCrawlSchema } from '../tools/web-crawl.js';
+import { webPageDiffTool, webPageDiffSchema } from '../tools/web-page-diff.js';
+import { OUTPUT_FORMATS } from '../utils/formats.js';
+import { loadPolitenessConfig } from '../utils/politeness.js';
+import { EXTRACTION_MODES } from '../utils/readability.js';
+import { RENDER_MODES } from '../utils/render.js';
+import { REQUEST_METHODS } from '../utils/request.js';
+import { loadSnapshotConfig } from '../utils/snapshots.js';
 import { webSearchTool, webSearchSchema } from '../tools/web-search.js';
+import {
+  searchSuggestionsTool,
+  searchSuggestionsSchema,
+} from '../tools/search-suggestions.js';
+import {
+  instantAnswerTool,
+  instantAnswerSchema,
+} from '../tools/instant-answer.js';
+import {
+  webSearchMultiTool,
+  webSearchMultiSchema,
+} from '../tools/web-search-multi.js';
+import { webResearchTool, webResearchSchema } from '../tools/web-research.js';
+import {
+  SEARCH_PROVIDER_NAMES,
+  SEARCH_REGIONS,
+  SEARCH_TIME_RANGES,
+  SEARCH_VERTICALS,
+  loadSearchConfig,
+} from '../providers/index.js';
 import {
   downloadFilesTool,
   downloadFilesSchema,
@@ -26,6 +55,9 @@ const mcpConfig = {
     retryDelay: DEFAULT_RETRY_DELAY,
     concurrency: DEFAULT_CONCURRENCY,
   },
+  search: loadSearchConfig(),
+  politeness: loadPolitenessConfig(),
+  snapshots: loadSnapshotConfig(),
 };
 
 const server = new Server(
@@ -42,6 +74,119 @@ const server = new Server(
   }
 );
 
+/**
+ * Input schema properties shared by the search tools
+ */
+const searchFilterProperties = {
+  region: {
+    type: 'string',
+    enum: SEARCH_REGIONS,
+    description:
+      'Region for search results (e.g. us-en, de-de; wt-wt for none)',
+    default: 'wt-wt',
+  },
+  time: {
+    type: 'string',
+    enum: SEARCH_TIME_RANGES,
+    description: 'Time filter for search results (d, w, m, y)',
+  },
+  dateFrom: {
+    type: 'string',
+    format: 'date',
+    description:
+      'Only return results published on or after this date (YYYY-MM-DD)',
+  },
+  dateTo: {
+    type: 'string',
+    format: 'date',
+    description:
+      'Only return results published on or before this date (YYYY-MM-DD)',
+  },
+  includeDomains: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only return results from these domains (subdomains included)',
+  },
+  excludeDomains: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'Never return results from these domains (subdomains included)',
+  },
+  fileType: {
+    type: 'string',
+    description: 'Restrict results to a file type, e.g. pdf',
+  },
+  exactPhrase: {
+    type: 'string',
+    description: 'Phrase that must appear verbatim in results',
+  },
+  excludeTerms: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Terms that must not appear in results',
+  },
+  provider: {
+    type: 'string',
+    enum: SEARCH_PROVIDER_NAMES,
+    description:
+      'Search backend to try first; other configured backends are used as fallback',
+  },
+};
+
+/**
+ * Input schema properties of the `request` option: what is sent with
+ * every request, whatever its method
+ */
+const requestHeaderProperties = {
+  headers: {
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description:
+      'Extra request headers, e.g. {"Accept-Language": "de-DE"}; they replace defaults of the same name',
+  },
+  cookies: {
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'Cookies to send, by name',
+  },
+  userAgent: {
+    type: 'string',
+    description: 'User-Agent header (default: desktop Chrome)',
+  },
+  auth: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['basic', 'bearer'] },
+      username: { type: 'string' },
+      password: { type: 'string' },
+      token: { type: 'string' },
+    },
+    required: ['type'],
+    description:
+      'HTTP authentication: basic with username and password, or a bearer token',
+  },
+};
+
+const requestProperty = {
+  type: 'object',
+  properties: {
+    ...requestHeaderProperties,
+    method: {
+      type: 'string',
+      enum: REQUEST_METHODS,
+      description: 'HTTP method (default: GET)',
+    },
+    body: {
+      type: 'string',
+      description:
+        'Request body, e.g. JSON or form data; set its Content-Type in headers',
+    },
+  },
+  description:
+    'How to send the request: headers, cookies, user agent, method, body and authentication. Credentials are redacted from the output.',
+};
+
 /**
  * List available tools with LLM-friendly descriptions
  */
@@ -51,11 +196,11 @@ server.setRequestHandler(ListToolsRequestSchema, () => {
       {
         name: 'web_search',
         description: `
-Search the web using DuckDuckGo for any query.
+Search the web for any query using DuckDuckGo or another configured backend (SearXNG, Brave, Bing).
 
 **Best for:** Finding information across the web, researching topics, getting current information.
 **Not recommended for:** When you already know the exact URL you need (use web_page instead).
-**Common mistakes:** Using web_search when you have a specific URL to scrape.
+**Common mistakes:** Using web_search when you have a specific URL to scrape; writing \`site:\`/\`-site:\` by hand instead of using includeDomains/excludeDomains. Use \`request\` for headers a backend needs, e.g. \`auth\` for a SearXNG instance behind basic authentication.
 **Prompt Example:** "Search for latest TypeScript features released"
 **Usage Example:**
 \`\`\`json
@@ -68,7 +213,8 @@ Search the web using DuckDuckGo for any query.
   }
 }
 \`\`\`
-**Returns:** Search results with titles, URLs, and descriptions.
+**Returns:** Ranked search results with titles, URLs, snippets, displayed URLs and dates where shown, plus the provider that served them and which filters it applied. Large \`maxResults\` values follow the engine's result pages; pass the returned \`nextCursor\` back as \`cursor\` to continue. \`related\` lists the engine's related searches when it shows any.
+With \`vertical\` set to news, images or videos, results carry the fields of that vertical: publisher and timestamp for news; image URL, thumbnail, dimensions and source page for images; duration, publisher and thumbnail for videos.
 `,
         inputSchema: {
           type: 'object',
@@ -79,14 +225,252 @@ Search the web using DuckDuckGo for any query.
               description: 'Maximum number of results to return',
               default: 10,
             },
-            region: {
+            ...searchFilterProperties,
+            vertical: {
+              type: 'string',
+              enum: SEARCH_VERTICALS,
+              description:
+                'Kind of results: web pages, news articles, images or videos',
+              default: 'web',
+            },
+            cursor: {
+              type: 'string',
+              description:
+                'Continuation cursor from a previous response (nextCursor)',
+            },
+            request: {
+              type: 'object',
+              properties: requestHeaderProperties,
+              description:
+                'Headers, cookies, user agent and authentication sent to the search backend. Credentials are redacted from the output.',
+            },
+            maxRetries: {
+              type: 'number',
+              description: 'Maximum retry attempts',
+              default: mcpConfig.defaults.maxRetries,
+            },
+            retryDelay: {
+              type: 'number',
+              description: 'Base delay in milliseconds between retry attempts',
+              default: mcpConfig.defaults.retryDelay,
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'web_search_multi',
+        description: `
+Run several phrasings of the same question at once and merge the results.
+
+**Best for:** Research where one phrasing may miss relevant pages; comparing how results overlap across queries.
+**Not recommended for:** A single well-defined query (use web_search instead).
+**Common mistakes:** Passing unrelated questions; results are fused into one ranking, so each query should target the same topic.
+**Prompt Example:** "Find sources on Node.js stream backpressure using a few different phrasings"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "web_search_multi",
+  "arguments": {
+    "queries": ["node streams backpressure", "nodejs pipe highWaterMark", "handling backpressure in Node.js"],
+    "maxResults": 10
+  }
+}
+\`\`\`
+**Returns:** One merged ranking (reciprocal rank fusion) with duplicates collapsed by URL; each result lists the queries it matched.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            queries: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'Alternative phrasings of the same question to run together',
+            },
+            maxResultsPerQuery: {
+              type: 'number',
+              description: 'Maximum number of results to fetch for each query',
+              default: 10,
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Maximum number of merged results to return',
+              default: 20,
+            },
+            ...searchFilterProperties,
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of parallel searches',
+              default: 3,
+            },
+            maxRetries: {
+              type: 'number',
+              description: 'Maximum retry attempts',
+              default: mcpConfig.defaults.maxRetries,
+            },
+            retryDelay: {
+              type: 'number',
+              description: 'Base delay in milliseconds between retry attempts',
+              default: mcpConfig.defaults.retryDelay,
+            },
+          },
+          required: ['queries'],
+        },
+      },
+      {
+        name: 'web_research',
+        description: `
+Search the web and read the top results in one call, returning their content ready to cite.
+
+**Best for:** Answering a question from several sources without chaining web_search and web_page yourself.
+**Not recommended for:** Browsing result lists (use web_search) or reading one known URL (use web_page).
+**Common mistakes:** Setting a large topN with a large maxLength; every source is fetched in full, so keep both modest.
+**Prompt Example:** "Research how HTTP/3 differs from HTTP/2 and summarize with sources"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "web_research",
+  "arguments": {
+    "query": "HTTP/3 vs HTTP/2 differences",
+    "topN": 3,
+    "maxLength": 4000
+  }
+}
+\`\`\`
+**Returns:** Numbered sources, each with title, URL, search snippet and extracted markdown content. A page that fails to load carries an \`error\` instead of content; the other sources are still returned.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'The search query',
+            },
+            topN: {
+              type: 'number',
+              description: 'Number of top search results to fetch and read',
+              default: 3,
+            },
+            maxLength: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Maximum content length per source',
+              default: 5000,
+            },
+            render: {
+              type: 'string',
+              enum: RENDER_MODES,
+              description:
+                'How to fetch each source: auto (plain HTTP, switching to a headless browser for JavaScript-only pages), static (plain HTTP only) or browser (always headless Chrome)',
+              default: 'auto',
+            },
+            ...searchFilterProperties,
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of pages fetched in parallel',
+              default: 3,
+            },
+            maxRetries: {
+              type: 'number',
+              description: 'Maximum retry attempts',
+              default: mcpConfig.defaults.maxRetries,
+            },
+            retryDelay: {
+              type: 'number',
+              description: 'Base delay in milliseconds between retry attempts',
+              default: mcpConfig.defaults.retryDelay,
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'search_suggestions',
+        description: `
+Get autocomplete suggestions for a partial query, and optionally the related searches shown with its results.
+
+**Best for:** Refining vague or unfamiliar search terms before running a full web_search; discovering how others phrase a topic.
+**Not recommended for:** Getting actual results or answers (use web_search or instant_answer).
+**Common mistakes:** Enabling includeRelated when autocomplete is enough; it runs a full search and is much slower.
+**Prompt Example:** "What do people usually search for about rust async?"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "search_suggestions",
+  "arguments": {
+    "query": "rust async",
+    "maxSuggestions": 8
+  }
+}
+\`\`\`
+**Returns:** Autocomplete \`suggestions\` for the query and, with includeRelated, the \`related\` searches from its results page.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
               type: 'string',
-              description: 'Region for search results',
-              default: 'wt-wt',
+              description: 'Partial or complete query to expand',
+            },
+            maxSuggestions: {
+              type: 'number',
+              description:
+                'Maximum number of autocomplete suggestions to return',
+              default: 10,
+            },
+            region: searchFilterProperties.region,
+            includeRelated: {
+              type: 'boolean',
+              description:
+                'Also run a web search and return its "related searches" (slower)',
+              default: false,
             },
-            time: {
+            maxRetries: {
+              type: 'number',
+              description: 'Maximum retry attempts',
+              default: mcpConfig.defaults.maxRetries,
+            },
+            retryDelay: {
+              type: 'number',
+              description: 'Base delay in milliseconds between retry attempts',
+              default: mcpConfig.defaults.retryDelay,
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'instant_answer',
+        description: `
+Look up a quick factual answer (definition, conversion, calculation, Wikipedia abstract) from DuckDuckGo's zero-click info.
+
+**Best for:** Definitions, "what is X" questions, unit conversions and short facts where a full search plus page fetch is wasteful.
+**Not recommended for:** Open-ended research, recent news or anything needing several sources (use web_search).
+**Common mistakes:** Asking long natural-language questions; short entity names or terms work best.
+**Prompt Example:** "What is the Rust programming language?"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "instant_answer",
+  "arguments": {
+    "query": "Rust programming language"
+  }
+}
+\`\`\`
+**Returns:** The abstract with its source URL, direct answer or definition, infobox key/value pairs and related topics. \`found\` is false when no instant answer exists.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
               type: 'string',
-              description: 'Time filter for search results (d, w, m, y)',
+              description: 'Term or question to look up',
+            },
+            maxRelatedTopics: {
+              type: 'number',
+              description: 'Maximum number of related topics to return',
+              default: 10,
             },
             maxRetries: {
               type: 'number',
@@ -105,11 +489,11 @@ Search the web using DuckDuckGo for any query.
       {
         name: 'web_page',
         description: `
-Fetch and extract content from a specific web page URL.
+Fetch and extract content from a specific web page URL. PDF documents are supported and read page by page. JSON is pretty-printed (filter it with \`jsonPath\`), XML is rendered as an indented tree, plain text and markdown are returned as served, and DOCX/ODT documents are converted like HTML pages.
 
 **Best for:** Getting full content from a known URL, extracting article text, documentation, or specific page content.
 **Not recommended for:** When you don't know the exact URL (use web_search first).
-**Common mistakes:** Using web_page for general web searches instead of specific URLs.
+**Common mistakes:** Using web_page for general web searches instead of specific URLs. Reading pricing pages, spec sheets or parameter tables without \`extractTables\` or \`gfmTables\`, which garbles their rows. When you know where the content lives, pass a \`selector\` such as \`#changelog\` instead of reading the whole page. Use \`extractionMode: "readability"\` for cluttered news or blog pages where navigation and banners drown out the article. Pages are fetched over plain HTTP and only opened in a headless browser when they turn out to be empty JavaScript shells; pass \`render: "browser"\` when a page loads its content with scripts despite showing some text. For pages behind a login or consent wall, pass \`cookies\` or \`auth\` in \`request\` rather than giving up; requests with a \`body\` or a method other than GET always go over plain HTTP.
 **Prompt Example:** "Get the content from https://docs.python.org/3/library/asyncio.html"
 **Usage Example:**
 \`\`\`json
@@ -123,7 +507,7 @@ Fetch and extract content from a specific web page URL.
   }
 }
 \`\`\`
-**Returns:** Page content in markdown format with optional links and metadata.
+**Returns:** The detected \`contentType\`, \`renderedWith\` (\`static\` or \`browser\`, the path that served the page), \`requestHeaders\` when \`request\` is set (credentials redacted) and page content in markdown (or plain text, cleaned HTML, or a heading outline with \`format\`) with optional links (\`{ url, text, rel, internal }\`, de-duplicated), images (\`{ src, alt, width, height, srcset }\`, lazy-loaded ones included) and metadata (author, ISO publish/modified dates, canonical URL, language, OpenGraph, Twitter card, JSON-LD and microdata). To read one section of a long page, request \`format: "outline"\` first, then pass a heading's \`offset\` as \`startIndex\`. Long pages are returned in chunks that end on paragraph or heading boundaries; when \`hasMore\` is true, call again with \`startIndex\` set to \`nextOffset\` to read on (the page is not fetched again).
 `,
         inputSchema: {
           type: 'object',
@@ -134,10 +518,53 @@ Fetch and extract content from a specific web page URL.
               description: 'URLs of the web pages to fetch',
             },
             maxLength: {
-              type: 'number',
+              type: 'integer',
+              minimum: 1,
               description: 'Maximum length of content to return',
               default: 5000,
             },
+            selector: {
+              type: 'string',
+              description:
+                'CSS selector of the part of the page to convert, e.g. #changelog or table.pricing; overrides extractionMode',
+            },
+            excludeSelectors: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'CSS selectors of elements to remove before conversion',
+            },
+            extractTables: {
+              type: 'boolean',
+              description:
+                'Return each table of the content as JSON headers and rows, with merged cells expanded',
+              default: false,
+            },
+            gfmTables: {
+              type: 'boolean',
+              description:
+                'Render tables as GitHub Flavored Markdown pipe tables',
+              default: false,
+            },
+            jsonPath: {
+              type: 'string',
+              description:
+                'JSONPath filter for JSON documents, e.g. $.items[*].name or $..id; the matches are returned as an array',
+            },
+            format: {
+              type: 'string',
+              enum: OUTPUT_FORMATS,
+              description:
+                'Output format: markdown, text (plain text), html (cleaned HTML) or outline (heading tree with offsets into the markdown)',
+              default: 'markdown',
+            },
+            startIndex: {
+              type: 'integer',
+              minimum: 0,
+              description:
+                'Character offset to start reading from; pass nextOffset from a previous response to continue a long page',
+              default: 0,
+            },
             includeImages: {
               type: 'boolean',
               description: 'Include images in the response',
@@ -148,6 +575,307 @@ Fetch and extract content from a specific web page URL.
               description: 'Include links in the response',
               default: true,
             },
+            internalLinksOnly: {
+              type: 'boolean',
+              description:
+                "Only return links to the page's own site (www. ignored), leaving out external ones",
+              default: false,
+            },
+            extractionMode: {
+              type: 'string',
+              enum: EXTRACTION_MODES,
+              description:
+                'How to find the main content: auto (content container, else whole page), readability (score blocks and strip boilerplate) or full (whole page)',
+              default: 'auto',
+            },
+            render: {
+              type: 'string',
+              enum: RENDER_MODES,
+              description:
+                'How to fetch the page: auto (plain HTTP, switching to a headless browser for JavaScript-only pages), static (plain HTTP only) or browser (always headless Chrome)',
+              default: 'auto',
+            },
+            request: requestProperty,
+            maxRetries: {
+              type: 'number',
+              description: 'Maximum retry attempts',
+              default: mcpConfig.defaults.maxRetries,
+            },
+            retryDelay: {
+              type: 'number',
+              description: 'Base delay in milliseconds between retry attempts',
+              default: mcpConfig.defaults.retryDelay,
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of parallel requests',
+              default: mcpConfig.defaults.concurrency,
+            },
+          },
+          required: ['urls'],
+        },
+      },
+      {
+        name: 'web_crawl',
+        description: `
+Crawl a site from a start URL, following links up to a depth, and extract every matching page like web_page.
+
+**Best for:** Ingesting a whole documentation site or section, e.g. everything under /docs/.
+**Not recommended for:** Reading a few known pages (use web_page) or finding pages across sites (use web_search).
+**Common mistakes:** Crawling a whole site when \`include\` such as \`/docs/**\` would do. Setting a high maxDepth without maxPages. Forgetting that \`maxLength\` applies to each page; continue a long page with web_page and its \`nextOffset\`.
+**Prompt Example:** "Ingest the Vite guide pages"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "web_crawl",
+  "arguments": {
+    "url": "https://vite.dev/guide/",
+    "maxDepth": 2,
+    "maxPages": 30,
+    "include": ["/guide/**"],
+    "exclude": ["**/*.zip"],
+    "sitemap": true
+  }
+}
+\`\`\`
+**Returns:** A \`summary\` (pages crawled and returned, whether maxPages was reached, skipped pages with reasons) and \`pages\` in the web_page result shape.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'URL to start crawling from',
+            },
+            maxDepth: {
+              type: 'number',
+              description:
+                'How many links away from the start URL to follow (0 for the start page only)',
+              default: 2,
+            },
+            maxPages: {
+              type: 'number',
+              description: 'Maximum number of pages to return',
+              default: 20,
+            },
+            include: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'URL globs of pages to return, e.g. /docs/**; patterns without :// match the path',
+            },
+            exclude: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'URL globs of pages to leave out, e.g. /blog/** or **/*.zip',
+            },
+            sameDomain: {
+              type: 'boolean',
+              description:
+                'Stay on the start URL host; set false to also follow links onto its subdomains',
+              default: true,
+            },
+            sitemap: {
+              type: 'boolean',
+              description: "Also seed the crawl from the site's sitemap",
+              default: false,
+            },
+            sitemapUrl: {
+              type: 'string',
+              description:
+                'Sitemap to seed from (default: /sitemap.xml on the start host)',
+            },
+            maxLength: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Maximum length of content to return per page',
+              default: 10000,
+            },
+            format: {
+              type: 'string',
+              enum: OUTPUT_FORMATS,
+              description:
+                'Output format: markdown, text (plain text), html (cleaned HTML) or outline (heading tree with offsets into the markdown)',
+              default: 'markdown',
+            },
+            extractionMode: {
+              type: 'string',
+              enum: EXTRACTION_MODES,
+              description:
+                'How to find the main content: auto (content container, else whole page), readability (score blocks and strip boilerplate) or full (whole page)',
+              default: 'auto',
+            },
+            selector: {
+              type: 'string',
+              description:
+                'CSS selector of the part of each page to convert; pages without a match are skipped',
+            },
+            excludeSelectors: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'CSS selectors of elements to remove before conversion',
+            },
+            extractTables: {
+              type: 'boolean',
+              description:
+                'Return each table of the content as JSON headers and rows, with merged cells expanded',
+              default: false,
+            },
+            gfmTables: {
+              type: 'boolean',
+              description:
+                'Render tables as GitHub Flavored Markdown pipe tables',
+              default: false,
+            },
+            includeImages: {
+              type: 'boolean',
+              description: 'Include images in the response',
+              default: false,
+            },
+            includeLinks: {
+              type: 'boolean',
+              description: 'Include links in the response',
+              default: false,
+            },
+            internalLinksOnly: {
+              type: 'boolean',
+              description:
+                "Only return links to the page's own site (www. ignored), leaving out external ones",
+              default: false,
+            },
+          },
+          required: ['url'],
+        },
+      },
+      {
+        name: 'web_feed',
+        description: `
+Read RSS 2.0, Atom or JSON Feed items from a feed URL, or from the feed a page advertises through \`<link rel="alternate">\`.
+
+**Best for:** Tracking release notes, changelogs and blogs; asking what changed since a given date.
+**Not recommended for:** Pages without a feed (use web_page) or searching for new sources (use web_search).
+**Common mistakes:** Fetching a blog's pages one by one with web_page instead of reading its feed. Forgetting \`since\`, which returns every item the feed still lists.
+**Prompt Example:** "What has the Node.js blog published since March 1st?"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "web_feed",
+  "arguments": {
+    "urls": ["https://nodejs.org/en/blog", "https://github.com/nodejs/node/releases.atom"],
+    "since": "2025-03-01",
+    "maxItems": 10
+  }
+}
+\`\`\`
+**Returns:** Per URL, the feed's title, format and \`feedUrl\`, the feeds the page advertised, and items with title, link, ISO published/updated dates and a plain-text summary.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            urls: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'Feed URLs, or pages whose <link rel="alternate"> tags point to a feed',
+            },
+            since: {
+              type: 'string',
+              description:
+                'Only return items published or updated on or after this date (ISO 8601, e.g. 2025-01-31)',
+            },
+            maxItems: {
+              type: 'number',
+              description: 'Maximum number of items to return per feed',
+              default: 20,
+            },
+            maxRetries: {
+              type: 'number',
+              description: 'Maximum retry attempts',
+              default: mcpConfig.defaults.maxRetries,
+            },
+            retryDelay: {
+              type: 'number',
+              description: 'Base delay in milliseconds between retry attempts',
+              default: mcpConfig.defaults.retryDelay,
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of parallel requests',
+              default: mcpConfig.defaults.concurrency,
+            },
+          },
+          required: ['urls'],
+        },
+      },
+      {
+        name: 'web_page_diff',
+        description: `
+Check pages for changes: fetch each page, store its extracted markdown as a snapshot, and compare it with the snapshot stored by the previous check.
+
+**Best for:** Watching pricing pages, changelogs and status pages, and asking what changed since the last look.
+**Not recommended for:** Reading a page for the first time (use web_page) or following a site's news when it has a feed (use web_feed).
+**Common mistakes:** Checking a whole page when a \`selector\` such as \`#pricing\` would leave out rotating banners and timestamps that change on every visit. Changing the selector or other extraction options between checks; each combination keeps its own snapshots, so the first check with new options is a baseline.
+**Prompt Example:** "Has the Vercel pricing page changed since I last checked?"
+**Usage Example:**
+\`\`\`json
+{
+  "name": "web_page_diff",
+  "arguments": {
+    "urls": ["https://vercel.com/pricing"],
+    "selector": "main",
+    "excludeSelectors": [".testimonials"]
+  }
+}
+\`\`\`
+**Returns:** Per URL, \`changed\`, \`firstSnapshot\` (true when nothing was stored yet and this check is the baseline), \`previousCheckedAt\` and, when changed, a unified \`diff\` plus the \`added\` and \`removed\` runs of lines, each with the heading of the section it falls in.
+`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            urls: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'URLs of the web pages to check',
+            },
+            selector: {
+              type: 'string',
+              description:
+                'CSS selector of the part of the page to watch; snapshots are kept per URL and extraction options',
+            },
+            excludeSelectors: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'CSS selectors of elements to remove before comparing, e.g. ads or timestamps',
+            },
+            extractionMode: {
+              type: 'string',
+              enum: EXTRACTION_MODES,
+              description:
+                'How to find the main content: auto (content container, else whole page), readability (score blocks and strip boilerplate) or full (whole page)',
+              default: 'auto',
+            },
+            gfmTables: {
+              type: 'boolean',
+              description:
+                'Render tables as GitHub Flavored Markdown pipe tables, so changed cells show up row by row',
+              default: false,
+            },
+            render: {
+              type: 'string',
+              enum: RENDER_MODES,
+              description:
+                'How to fetch the page: auto (plain HTTP, switching to a headless browser for JavaScript-only pages), static (plain HTTP only) or browser (always headless Chrome)',
+              default: 'auto',
+            },
+            contextLines: {
+              type: 'number',
+              description:
+                'Unchanged lines shown around each change in the diff',
+              default: 3,
+            },
             maxRetries: {
               type: 'number',
               description: 'Maximum retry attempts',
@@ -174,7 +902,7 @@ Fetch and extract content from a specific web page URL.
   
   **Best for:** Downloading files from URLs to local storage with security and error handling.
   **Not recommended for:** When you don't have permission to write to the target directory.
-  **Common mistakes:** Not specifying a valid directory path or providing invalid URLs.
+  **Common mistakes:** Not specifying a valid directory path or providing invalid URLs. Files behind a login need \`cookies\` or \`auth\` in \`request\`; credentials are redacted from the results.
   **Prompt Example:** "Download these files to /tmp/downloads"
   **Usage Example:**
   \`\`\`json
@@ -211,6 +939,7 @@ Fetch and extract content from a specific web page URL.
               description:
                 'Optional array of custom filenames (same length as urls)',
             },
+            request: requestProperty,
             maxRetries: {
               type: 'number',
               description:
@@ -248,17 +977,60 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     switch (name) {
       case 'web_search': {
         const searchInput = webSearchSchema.parse(args);
-        return await webSearchTool(searchInput);
+        return await webSearchTool(searchInput, mcpConfig.search);
+      }
+
+      case 'web_search_multi': {
+        const multiInput = webSearchMultiSchema.parse(args);
+        return await webSearchMultiTool(multiInput, mcpConfig.search);
+      }
+
+      case 'web_research': {
+        const researchInput = webResearchSchema.parse(args);
+        return await webResearchTool(
+          researchInput,
+          mcpConfig.search,
+          mcpConfig.politeness
+        );
+      }
+
+      case 'search_suggestions': {
+        const suggestionsInput = searchSuggestionsSchema.parse(args);
+        return await searchSuggestionsTool(suggestionsInput, mcpConfig.search);
+      }
+
+      case 'instant_answer': {
+        const answerInput = instantAnswerSchema.parse(args);
+        return await instantAnswerTool(answerInput);
       }
 
       case 'web_page': {
         const pageInput = webPageSchema.parse(args);
-        return await webPageTool(pageInput);
+        return await webPageTool(pageInput, mcpConfig.politeness);
+      }
+
+      case 'web_crawl': {
+        const crawlInput = webCrawlSchema.parse(args);
+        return await webCrawlTool(crawlInput, mcpConfig.politeness);
+      }
+
+      case 'web_feed': {
+        const feedInput = webFeedSchema.parse(args);
+        return await webFeedTool(feedInput, mcpConfig.politeness);
+      }
+
+      case 'web_page_diff': {
+        const diffInput = webPageDiffSchema.parse(args);
+        return await webPageDiffTool(
+          diffInput,
+          mcpConfig.snapshots,
+          mcpConfig.politeness
+        );
       }
 
       case 'download_files': {
         const downloadInput = downloadFilesSchema.parse(args);
-        return await downloadFilesTool(downloadInput);
+        return await downloadFilesTool(downloadInput, mcpConfig.politeness);
       }
 
       default:
@@ -3,6 +3,19 @@ import fetch from 'node-fetch';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
+import {
+  isBlockedByRobots,
+  loadPolitenessConfig,
+  politeRequest,
+  type PolitenessConfig,
+} from '../utils/politeness.js';
+import {
+  DEFAULT_USER_AGENT,
+  buildRequestHeaders,
+  redactSecrets,
+  requestOptionsSchema,
+  type RequestOptions,
+} from '../utils/request.js';
 import { withRetry } from '../utils/retry.js';
 import pLimit from 'p-limit';
 
@@ -25,6 +38,7 @@ export const downloadFilesSchema = z.object({
     .array(z.string())
     .optional()
     .describe('Optional array of custom filenames (same length as urls)'),
+  request: requestOptionsSchema.optional(),
   maxRetries: z
     .number()
     .optional()
@@ -56,6 +70,8 @@ interface DownloadResult {
   size: number;
   success: boolean;
   error?: string;
+  /** Set when robots.txt disallows fetching the file */
+  blockedByRobots?: boolean;
 }
 
 interface DownloadFilesResult {
@@ -68,7 +84,8 @@ interface DownloadFilesResult {
 }
 
 export async function downloadFilesTool(
-  input: DownloadFilesInput
+  input: DownloadFilesInput,
+  config: PolitenessConfig = loadPolitenessConfig()
 ): Promise<DownloadFilesResult> {
   const limit = pLimit(input.concurrency);
 
@@ -105,7 +122,15 @@ export async function downloadFilesTool(
           }
 
           return await withRetry(
-            () => downloadFile(url, resolvedFilepath, input.timeout),
+            () =>
+              politeRequest(url, config, () =>
+                downloadFile(
+                  url,
+                  resolvedFilepath,
+                  input.timeout,
+                  input.request
+                )
+              ),
             input.maxRetries,
             input.retryDelay
           );
@@ -117,6 +142,7 @@ export async function downloadFilesTool(
             size: 0,
             success: false,
             error: error instanceof Error ? error.message : String(error),
+            blockedByRobots: isBlockedByRobots(error) || undefined,
           } as DownloadResult;
         }
       })
@@ -128,7 +154,7 @@ export async function downloadFilesTool(
       content: [
         {
           type: 'text',
-          text: JSON.stringify(results, null, 2),
+          text: redactSecrets(JSON.stringify(results, null, 2), input.request),
         },
       ],
     };
@@ -137,19 +163,22 @@ export async function downloadFilesTool(
       content: [
         {
           type: 'text',
-          text: JSON.stringify(
-            [
-              {
-                url: '',
-                filepath: '',
-                filename: '',
-                size: 0,
-                success: false,
-                error: error instanceof Error ? error.message : String(error),
-              },
-            ],
-            null,
-            2
+          text: redactSecrets(
+            JSON.stringify(
+              [
+                {
+                  url: '',
+                  filepath: '',
+                  filename: '',
+                  size: 0,
+                  success: false,
+                  error: error instanceof Error ? error.message : String(error),
+                },
+              ],
+              null,
+              2
+            ),
+            input.request
           ),
         },
       ],
@@ -160,7 +189,8 @@ export async function downloadFilesTool(
 async function downloadFile(
   url: string,
   filepath: string,
-  timeout: number
+  timeout: number,
+  request?: RequestOptions
 ): Promise<DownloadResult> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
@@ -168,10 +198,11 @@ async function downloadFile(
   try {
     const response = await fetch(url, {
       signal: controller.signal,
-      headers: {
-        'User-Agent':
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
-      },
+      method: request?.method ?? 'GET',
+      body: request?.body,
+      headers: buildRequestHeaders(request, {
+        'User-Agent': DEFAULT_USER_AGENT,
+      }),
     });
 
     clearTimeout(timeoutId);
@@ -0,0 +1,201 @@
+import { z } from 'zod';
+
+import { fetchJson } from '../providers/http.js';
+import { withRetry } from '../utils/retry.js';
+
+const INSTANT_ANSWER_ENDPOINT = 'https://api.duckduckgo.com/';
+
+export const instantAnswerSchema = z.object({
+  query: z.string().describe('Term or question to look up'),
+  maxRelatedTopics: z
+    .number()
+    .optional()
+    .default(10)
+    .describe('Maximum number of related topics to return'),
+  maxRetries: z
+    .number()
+    .optional()
+    .default(3)
+    .describe('Maximum number of retry attempts for failed requests'),
+  retryDelay: z
+    .number()
+    .optional()
+    .default(1000)
+    .describe('Base delay in milliseconds between retry attempts'),
+});
+
+export type InstantAnswerInput = z.infer<typeof instantAnswerSchema>;
+
+// Zero-click response types: A=article, D=disambiguation, C=category, N=name, E=exclusive
+const ANSWER_TYPES: Record<string, InstantAnswer['type']> = {
+  A: 'article',
+  D: 'disambiguation',
+  C: 'category',
+  N: 'name',
+  E: 'exclusive',
+};
+
+interface DdgTopic {
+  Text?: string;
+  FirstURL?: string;
+  Name?: string;
+  Topics?: DdgTopic[];
+}
+
+interface DdgInstantAnswer {
+  Type?: string;
+  Heading?: string;
+  AbstractText?: string;
+  AbstractSource?: string;
+  AbstractURL?: string;
+  Answer?: string | number;
+  AnswerType?: string;
+  Definition?: string;
+  DefinitionSource?: string;
+  DefinitionURL?: string;
+  Image?: string;
+  Infobox?: { content?: { label?: string; value?: unknown }[] } | '';
+  RelatedTopics?: DdgTopic[];
+}
+
+export interface InstantAnswer {
+  query: string;
+  found: boolean;
+  type:
+    | 'article'
+    | 'disambiguation'
+    | 'category'
+    | 'name'
+    | 'exclusive'
+    | 'none';
+  heading?: string;
+  answer?: string;
+  answerType?: string;
+  abstract?: string;
+  abstractSource?: string;
+  abstractUrl?: string;
+  definition?: string;
+  definitionSource?: string;
+  definitionUrl?: string;
+  image?: string;
+  infobox: { label: string; value: string }[];
+  relatedTopics: { text: string; url: string; category?: string }[];
+  message?: string;
+}
+
+function optional(value: string | number | undefined): string | undefined {
+  return value === undefined || value === '' ? undefined : String(value);
+}
+
+/**
+ * Map DDG's zero-click payload onto structured fields
+ * @param query - Query that was looked up
+ * @param data - Parsed JSON from api.duckduckgo.com
+ * @param maxRelatedTopics - Maximum number of related topics to keep
+ */
+export function parseInstantAnswer(
+  query: string,
+  data: DdgInstantAnswer,
+  maxRelatedTopics = 10
+): InstantAnswer {
+  const infobox = (data.Infobox ? (data.Infobox.content ?? []) : [])
+    .filter(
+      (entry) =>
+        entry.label &&
+        (typeof entry.value === 'string' || typeof entry.value === 'number')
+    )
+    .map((entry) => ({ label: entry.label!, value: String(entry.value) }));
+
+  // Topics are either flat entries or named groups of entries
+  const relatedTopics: InstantAnswer['relatedTopics'] = [];
+  for (const topic of data.RelatedTopics ?? []) {
+    const entries = topic.Topics
+      ? topic.Topics.map((t) => ({ ...t, category: topic.Name }))
+      : [{ ...topic, category: undefined }];
+    for (const entry of entries) {
+      if (entry.Text && entry.FirstURL) {
+        relatedTopics.push({
+          text: entry.Text,
+          url: entry.FirstURL,
+          category: entry.category,
+        });
+      }
+    }
+  }
+
+  const answer: InstantAnswer = {
+    query,
+    found: false,
+    type: ANSWER_TYPES[data.Type ?? ''] ?? 'none',
+    heading: optional(data.Heading),
+    answer: optional(data.Answer),
+    answerType: optional(data.AnswerType),
+    abstract: optional(data.AbstractText),
+    abstractSource: optional(data.AbstractSource),
+    abstractUrl: optional(data.AbstractURL),
+    definition: optional(data.Definition),
+    definitionSource: optional(data.DefinitionSource),
+    definitionUrl: optional(data.DefinitionURL),
+    image: data.Image
+      ? new URL(data.Image, INSTANT_ANSWER_ENDPOINT).toString()
+      : undefined,
+    infobox,
+    relatedTopics: relatedTopics.slice(0, maxRelatedTopics),
+  };
+
+  answer.found = Boolean(
+    answer.answer ||
+      answer.abstract ||
+      answer.definition ||
+      infobox.length ||
+      (answer.type === 'disambiguation' && relatedTopics.length)
+  );
+  if (!answer.found) {
+    answer.message = `No instant answer available for "${query}". Use web_search for a full search.`;
+  }
+
+  return answer;
+}
+
+export async function instantAnswerTool(input: InstantAnswerInput) {
+  try {
+    const url = new URL(INSTANT_ANSWER_ENDPOINT);
+    url.searchParams.set('q', input.query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('no_html', '1');
+    url.searchParams.set('no_redirect', '1');
+
+    const data = await withRetry(
+      () => fetchJson<DdgInstantAnswer>(url.toString()),
+      input.maxRetries,
+      input.retryDelay
+    );
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            parseInstantAnswer(input.query, data, input.maxRelatedTopics),
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error fetching instant answer after ${
+            input.maxRetries
+          } attempts: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
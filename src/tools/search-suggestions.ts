@@ -0,0 +1,155 @@
+import { z } from 'zod';
+
+import {
+  SEARCH_REGIONS,
+  loadSearchConfig,
+  type SearchConfig,
+} from '../providers/index.js';
+import { fetchJson } from '../providers/http.js';
+import { withRetry } from '../utils/retry.js';
+import { performWebSearch } from './web-search.js';
+
+const AUTOCOMPLETE_ENDPOINT = 'https://duckduckgo.com/ac/';
+
+export const searchSuggestionsSchema = z.object({
+  query: z.string().describe('Partial or complete query to expand'),
+  maxSuggestions: z
+    .number()
+    .optional()
+    .default(10)
+    .describe('Maximum number of autocomplete suggestions to return'),
+  region: z
+    .enum(SEARCH_REGIONS)
+    .optional()
+    .default('wt-wt')
+    .describe('Region for suggestions (e.g. us-en, de-de; wt-wt for none)'),
+  includeRelated: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Also run a web search and return its "related searches" (slower)'
+    ),
+  maxRetries: z
+    .number()
+    .optional()
+    .default(3)
+    .describe('Maximum number of retry attempts for failed requests'),
+  retryDelay: z
+    .number()
+    .optional()
+    .default(1000)
+    .describe('Base delay in milliseconds between retry attempts'),
+});
+
+export type SearchSuggestionsInput = z.infer<typeof searchSuggestionsSchema>;
+
+/**
+ * Read DDG's autocomplete payload. With `type=list` it is
+ * `[query, [suggestion, ...]]`; the legacy format is `[{ phrase }, ...]`.
+ * @param data - Parsed JSON from duckduckgo.com/ac/
+ * @param query - Query that was expanded, left out of the suggestions
+ * @param maxSuggestions - Maximum number of suggestions to keep
+ */
+export function parseSuggestions(
+  data: unknown,
+  query: string,
+  maxSuggestions = 10
+): string[] {
+  let phrases: unknown[] = [];
+  if (Array.isArray(data) && Array.isArray(data[1])) {
+    phrases = data[1];
+  } else if (Array.isArray(data)) {
+    phrases = data.map((entry) => (entry as { phrase?: unknown })?.phrase);
+  }
+
+  const seen = new Set([query.trim().toLowerCase()]);
+  const suggestions: string[] = [];
+  for (const phrase of phrases) {
+    if (typeof phrase !== 'string') continue;
+    const text = phrase.trim();
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    suggestions.push(text);
+  }
+  return suggestions.slice(0, maxSuggestions);
+}
+
+export async function searchSuggestionsTool(
+  input: SearchSuggestionsInput,
+  config: SearchConfig = loadSearchConfig()
+) {
+  try {
+    const url = new URL(AUTOCOMPLETE_ENDPOINT);
+    url.searchParams.set('q', input.query);
+    url.searchParams.set('type', 'list');
+    if (input.region && input.region !== 'wt-wt') {
+      url.searchParams.set('kl', input.region);
+    }
+
+    const data = await withRetry(
+      () => fetchJson<unknown>(url.toString()),
+      input.maxRetries,
+      input.retryDelay
+    );
+    const output: {
+      query: string;
+      suggestions: string[];
+      related?: string[];
+      relatedError?: string;
+    } = {
+      query: input.query,
+      suggestions: parseSuggestions(data, input.query, input.maxSuggestions),
+    };
+
+    // Related searches need a full results page, so a failure there should
+    // not hide the suggestions already collected
+    if (input.includeRelated) {
+      try {
+        const search = await withRetry(
+          () =>
+            performWebSearch(
+              {
+                query: input.query,
+                region: input.region,
+                maxResults: 1,
+                vertical: 'web',
+                maxRetries: input.maxRetries,
+                retryDelay: input.retryDelay,
+              },
+              config
+            ),
+          input.maxRetries,
+          input.retryDelay
+        );
+        output.related = search.related ?? [];
+      } catch (error) {
+        output.relatedError =
+          error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error fetching search suggestions after ${
+            input.maxRetries
+          } attempts: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
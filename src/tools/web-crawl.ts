@@ -0,0 +1,335 @@
+import { Website, type NPage } from '@spider-rs/spider-rs';
+import { z } from 'zod';
+
+import { DOCUMENT_MIME_TYPES, detectDocumentKind } from '../utils/documents.js';
+import { cachePage } from '../utils/page-cache.js';
+import {
+  checkRobots,
+  loadPolitenessConfig,
+  politeRequest,
+  type PolitenessConfig,
+} from '../utils/politeness.js';
+import { DEFAULT_USER_AGENT } from '../utils/request.js';
+import {
+  getRobotsRules,
+  isAllowedByRobots,
+  robotsBlacklist,
+} from '../utils/robots.js';
+import { matchesUrlPattern, normalizeUrl } from '../utils/url.js';
+import {
+  extractWebPage,
+  webPageSchema,
+  type WebPageResult,
+} from './web-page.js';
+
+// Filtered crawls fetch pages they do not return; this bounds how many
+// pages are fetched for each one that is
+const FILTERED_BUDGET_FACTOR = 5;
+
+export const webCrawlSchema = webPageSchema
+  .omit({
+    urls: true,
+    startIndex: true,
+    jsonPath: true,
+    render: true,
+    request: true,
+    maxRetries: true,
+    retryDelay: true,
+    concurrency: true,
+  })
+  .extend({
+    url: z.string().describe('URL to start crawling from'),
+    maxDepth: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .default(2)
+      .describe(
+        'How many links away from the start URL to follow (0 for the start page only)'
+      ),
+    maxPages: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .default(20)
+      .describe('Maximum number of pages to return'),
+    maxLength: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .default(10000)
+      .describe('Maximum length of content to return per page'),
+    include: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'URL globs of pages to return, e.g. /docs/**; patterns without :// match the path'
+      ),
+    exclude: z
+      .array(z.string())
+      .optional()
+      .describe('URL globs of pages to leave out, e.g. /blog/** or **/*.zip'),
+    sameDomain: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe(
+        'Stay on the start URL host; set false to also follow links onto its subdomains'
+      ),
+    sitemap: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Also seed the crawl from the site's sitemap"),
+    sitemapUrl: z
+      .string()
+      .optional()
+      .describe(
+        'Sitemap to seed from (default: /sitemap.xml on the start host)'
+      ),
+  });
+
+export type WebCrawlInput = z.infer<typeof webCrawlSchema>;
+
+export interface CrawlSummary {
+  startUrl: string;
+  /** Pages the crawler fetched, including ones filtered out */
+  pagesCrawled: number;
+  pagesReturned: number;
+  /** Whether the crawl stopped because more than maxPages pages matched */
+  truncated: boolean;
+  /** Fetched pages that matched the filters but could not be returned */
+  skipped: { url: string; reason: string }[];
+  durationMs: number;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Whether a crawled URL should be returned, given the crawl's domain and
+ * include/exclude filters
+ */
+export function isCrawlTarget(
+  url: string,
+  input: Pick<WebCrawlInput, 'url' | 'include' | 'exclude' | 'sameDomain'>
+): boolean {
+  const host = hostOf(url);
+  const startHost = hostOf(input.url);
+  if (
+    input.sameDomain !== false
+      ? host !== startHost
+      : host !== startHost && !host.endsWith(`.${startHost}`)
+  ) {
+    return false;
+  }
+  if (input.exclude?.some((pattern) => matchesUrlPattern(url, pattern))) {
+    return false;
+  }
+  return (
+    !input.include?.length ||
+    input.include.some((pattern) => matchesUrlPattern(url, pattern))
+  );
+}
+
+export async function webCrawlTool(
+  input: WebCrawlInput,
+  config: PolitenessConfig = loadPolitenessConfig()
+) {
+  try {
+    const { summary, pages } = await crawlSite(input, config);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({ summary, pages }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error crawling ${input.url}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Why robots.txt rules out a fetched page, if they do: the blacklist only
+ * covers the start host's plain Disallow rules
+ */
+async function robotsSkipReason(
+  url: string,
+  config: PolitenessConfig
+): Promise<string | undefined> {
+  try {
+    const rules = await getRobotsRules(url, config.userAgent);
+    return isAllowedByRobots(rules, url) ? undefined : 'Blocked by robots.txt';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Crawl a site from a start URL and extract every matching page. With
+ * robots.txt enforced, the start host's disallowed paths are blacklisted
+ * before crawling, so the crawler never requests them; pages on other
+ * hosts and paths an Allow rule may reopen are checked once fetched and
+ * skipped. The crawl takes one of the start host's request slots and
+ * waits the host's delay between pages.
+ */
+export async function crawlSite(
+  input: WebCrawlInput,
+  config: PolitenessConfig = loadPolitenessConfig()
+): Promise<{ summary: CrawlSummary; pages: WebPageResult[] }> {
+  const started = Date.now();
+  const maxPages = input.maxPages ?? 20;
+  const filtered = Boolean(input.include?.length || input.exclude?.length);
+  const delay = await checkRobots(input.url, config);
+  // spider reads a depth of 0 as no limit, so the start page alone is
+  // enforced with a budget of one page and no sitemap seeding
+  const maxDepth = input.maxDepth ?? 2;
+  const startOnly = maxDepth === 0;
+
+  const website = new Website(input.url)
+    .withDepth(maxDepth)
+    .withBudget({
+      '*': startOnly
+        ? 1
+        : filtered
+          ? maxPages * FILTERED_BUDGET_FACTOR
+          : // One page beyond maxPages tells whether the site goes on
+            maxPages + 1,
+    })
+    .withSubdomains(input.sameDomain === false)
+    .withRespectRobotsTxt(config.respectRobotsTxt);
+  if (config.respectRobotsTxt) {
+    // The crawler matches robots.txt against its own user agent, so the
+    // rules for the configured one are handed over as a blacklist
+    const origin = new URL(input.url).origin;
+    const blacklist = robotsBlacklist(
+      await getRobotsRules(input.url, config.userAgent),
+      origin
+    );
+    if (blacklist.length) website.withBlacklistUrl(blacklist);
+  }
+  // With a delay the crawler fetches one page at a time, which also keeps
+  // it within the host's concurrency cap
+  if (delay > 0 || config.hostConcurrency > 0) {
+    website.withDelay(Math.max(delay, 1));
+  }
+  if (input.sitemap && !startOnly) {
+    website.withSitemap(
+      input.sitemapUrl ?? new URL('/sitemap.xml', input.url).toString()
+    );
+  }
+  website.build();
+
+  website.withHeaders({
+    'User-Agent': DEFAULT_USER_AGENT,
+    Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.9',
+  });
+
+  const seen = new Set<string>();
+  const matched: NPage[] = [];
+  let pagesCrawled = 0;
+  let truncated = false;
+
+  const crawl = () =>
+    website.crawl((error, page) => {
+      if (error || !page) return;
+      if (startOnly && pagesCrawled > 0) return;
+      pagesCrawled++;
+
+      const key = normalizeUrl(page.url);
+      if (seen.has(key) || !isCrawlTarget(page.url, input)) return;
+      seen.add(key);
+
+      // A match beyond maxPages ends the crawl; pages already in flight
+      // still arrive after stop()
+      if (matched.length >= maxPages) {
+        if (!truncated) void website.stop();
+        truncated = true;
+        return;
+      }
+      matched.push(page);
+    });
+  await politeRequest(input.url, config, crawl);
+
+  const skipped: CrawlSummary['skipped'] = [];
+  const pages: WebPageResult[] = [];
+  for (const page of matched) {
+    if (page.statusCode >= 400) {
+      skipped.push({ url: page.url, reason: `HTTP ${page.statusCode}` });
+      continue;
+    }
+    const kind = detectDocumentKind(
+      page.url,
+      page.headers?.['content-type'],
+      page.content.slice(0, 1024)
+    );
+    if (kind !== 'html') {
+      skipped.push({ url: page.url, reason: `Not an HTML page (${kind})` });
+      continue;
+    }
+    if (config.respectRobotsTxt) {
+      const reason = await robotsSkipReason(page.url, config);
+      if (reason) {
+        skipped.push({ url: page.url, reason });
+        continue;
+      }
+    }
+
+    const fetched = {
+      url: page.url,
+      content: page.content,
+      statusCode: page.statusCode,
+      contentType: DOCUMENT_MIME_TYPES.html,
+      renderedWith: 'static' as const,
+    };
+    // web_page can read on from nextOffset without crawling again
+    cachePage(page.url, fetched);
+
+    try {
+      pages.push(
+        await extractWebPage(
+          { ...input, url: page.url, startIndex: 0 },
+          fetched
+        )
+      );
+    } catch (error) {
+      skipped.push({
+        url: page.url,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    summary: {
+      startUrl: input.url,
+      pagesCrawled,
+      pagesReturned: pages.length,
+      truncated,
+      skipped,
+      durationMs: Date.now() - started,
+    },
+    pages,
+  };
+}
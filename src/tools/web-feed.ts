@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import fetch from 'node-fetch';
+import pLimit from 'p-limit';
+
+import {
+  discoverFeeds,
+  filterItemsSince,
+  parseFeed,
+  type DiscoveredFeed,
+  type Feed,
+  type FeedFormat,
+  type FeedItem,
+} from '../utils/feeds.js';
+import {
+  isBlockedByRobots,
+  loadPolitenessConfig,
+  politeRequest,
+  type PolitenessConfig,
+} from '../utils/politeness.js';
+import { DEFAULT_USER_AGENT } from '../utils/request.js';
+import { withRetry } from '../utils/retry.js';
+
+const FEED_TIMEOUT = 15000;
+
+export const webFeedSchema = z.object({
+  urls: z
+    .array(z.string())
+    .describe(
+      'Feed URLs, or pages whose <link rel="alternate"> tags point to a feed'
+    ),
+  since: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), {
+      message: 'Invalid date',
+    })
+    .optional()
+    .describe(
+      'Only return items published or updated on or after this date (ISO 8601, e.g. 2025-01-31)'
+    ),
+  maxItems: z
+    .number()
+    .optional()
+    .default(20)
+    .describe('Maximum number of items to return per feed'),
+  maxRetries: z
+    .number()
+    .optional()
+    .default(3)
+    .describe('Maximum number of retry attempts for failed requests'),
+  retryDelay: z
+    .number()
+    .optional()
+    .default(1000)
+    .describe('Base delay in milliseconds between retry attempts'),
+  concurrency: z
+    .number()
+    .optional()
+    .default(5)
+    .describe('Maximum number of parallel requests'),
+});
+
+export type WebFeedInput = z.infer<typeof webFeedSchema>;
+
+export interface WebFeedResult {
+  /** URL as requested */
+  url: string;
+  /** URL of the feed that was read, after discovery and redirects */
+  feedUrl?: string;
+  format?: FeedFormat;
+  title: string;
+  link?: string;
+  description?: string;
+  /** Number of items in the feed before filtering */
+  totalItems: number;
+  items: FeedItem[];
+  /** Feeds advertised by the page, when a page was given */
+  discovered?: DiscoveredFeed[];
+  error?: string;
+  /** Set when robots.txt disallows fetching the page or feed */
+  blockedByRobots?: boolean;
+}
+
+export async function webFeedTool(
+  input: WebFeedInput,
+  config: PolitenessConfig = loadPolitenessConfig()
+) {
+  const limit = pLimit(input.concurrency ?? 5);
+  const tasks = input.urls.map((url) =>
+    limit(async (): Promise<WebFeedResult> => {
+      try {
+        return await withRetry(
+          () => readFeed({ ...input, url }, config),
+          input.maxRetries,
+          input.retryDelay
+        );
+      } catch (error) {
+        return {
+          url,
+          title: 'Error',
+          totalItems: 0,
+          items: [],
+          error: error instanceof Error ? error.message : String(error),
+          blockedByRobots: isBlockedByRobots(error) || undefined,
+        };
+      }
+    })
+  );
+
+  const results = await Promise.all(tasks);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(results, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Read one feed. A URL that is not a feed is treated as a web page and
+ * the first feed it advertises is read instead.
+ */
+export async function readFeed(
+  input: WebFeedInput & { url: string },
+  config: PolitenessConfig = loadPolitenessConfig()
+): Promise<WebFeedResult> {
+  const { url } = input;
+  let response = await politeRequest(url, config, () => fetchFeedDocument(url));
+  let feed: Feed | undefined = parseFeed(response.body, response.url);
+
+  let discovered: DiscoveredFeed[] | undefined;
+  if (!feed) {
+    discovered = discoverFeeds(response.body, response.url);
+    if (!discovered.length) {
+      throw Object.assign(
+        new Error(`No RSS, Atom or JSON feed found at ${url}`),
+        { statusCode: 404 }
+      );
+    }
+    const feedUrl = discovered[0].url;
+    response = await politeRequest(feedUrl, config, () =>
+      fetchFeedDocument(feedUrl)
+    );
+    feed = parseFeed(response.body, response.url);
+    if (!feed) {
+      throw Object.assign(
+        new Error(`${discovered[0].url} is not an RSS, Atom or JSON feed`),
+        { statusCode: 422 }
+      );
+    }
+  }
+
+  const items = input.since
+    ? filterItemsSince(feed.items, input.since)
+    : feed.items;
+
+  return {
+    url,
+    feedUrl: response.url,
+    format: feed.format,
+    title: feed.title,
+    link: feed.link,
+    description: feed.description,
+    totalItems: feed.items.length,
+    items: items.slice(0, input.maxItems ?? 20),
+    discovered,
+  };
+}
+
+async function fetchFeedDocument(
+  url: string
+): Promise<{ url: string; body: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FEED_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': DEFAULT_USER_AGENT,
+        Accept:
+          'application/rss+xml,application/atom+xml,application/feed+json,application/xml;q=0.9,text/html;q=0.8,*/*;q=0.5',
+      },
+    });
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`HTTP ${response.status}: ${response.statusText}`),
+        { statusCode: response.status }
+      );
+    }
+    return { url: response.url || url, body: await response.text() };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import pLimit from 'p-limit';
+
+import { diffDocuments, type ChangedSection } from '../utils/diff.js';
+import {
+  isBlockedByRobots,
+  loadPolitenessConfig,
+  type PolitenessConfig,
+} from '../utils/politeness.js';
+import { withRetry } from '../utils/retry.js';
+import {
+  loadSnapshotConfig,
+  recordSnapshot,
+  type SnapshotConfig,
+} from '../utils/snapshots.js';
+import { fetchWebPage, webPageSchema } from './web-page.js';
+
+export const webPageDiffSchema = webPageSchema
+  .pick({
+    urls: true,
+    selector: true,
+    excludeSelectors: true,
+    extractionMode: true,
+    gfmTables: true,
+    render: true,
+    maxRetries: true,
+    retryDelay: true,
+    concurrency: true,
+  })
+  .extend({
+    contextLines: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .default(3)
+      .describe('Unchanged lines shown around each change in the diff'),
+  });
+
+export type WebPageDiffInput = z.infer<typeof webPageDiffSchema>;
+
+export interface WebPageDiffResult {
+  url: string;
+  selector?: string;
+  title: string;
+  /** Whether the content differs from the previous snapshot */
+  changed: boolean;
+  /** Set when the page had no snapshot yet; this one is the baseline */
+  firstSnapshot: boolean;
+  /** When the previous snapshot was last checked, ISO 8601 */
+  previousCheckedAt?: string;
+  /** When the current content was first seen, ISO 8601 */
+  fetchedAt?: string;
+  /** Unified diff from the previous snapshot, when changed */
+  diff?: string;
+  added?: ChangedSection[];
+  removed?: ChangedSection[];
+  error?: string;
+  /** Set when robots.txt disallows fetching the page */
+  blockedByRobots?: boolean;
+}
+
+export async function webPageDiffTool(
+  input: WebPageDiffInput,
+  config: SnapshotConfig = loadSnapshotConfig(),
+  politeness: PolitenessConfig = loadPolitenessConfig()
+) {
+  const limit = pLimit(input.concurrency ?? 5);
+  const tasks = input.urls.map((url) =>
+    limit(async (): Promise<WebPageDiffResult> => {
+      try {
+        return await checkPage({ ...input, url }, config, politeness);
+      } catch (error) {
+        return {
+          url,
+          selector: input.selector,
+          title: 'Error',
+          changed: false,
+          firstSnapshot: false,
+          error: error instanceof Error ? error.message : String(error),
+          blockedByRobots: isBlockedByRobots(error) || undefined,
+        };
+      }
+    })
+  );
+
+  const results = await Promise.all(tasks);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(results, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Fetch a page, store its markdown as the latest snapshot for its URL and
+ * extraction options, and compare it with the snapshot stored before
+ */
+export async function checkPage(
+  input: WebPageDiffInput & { url: string },
+  config: SnapshotConfig = loadSnapshotConfig(),
+  politeness: PolitenessConfig = loadPolitenessConfig()
+): Promise<WebPageDiffResult> {
+  const { url, selector } = input;
+
+  // The whole document is compared, so it is read in a single chunk
+  const pageInput = webPageSchema.parse({
+    urls: [],
+    selector,
+    excludeSelectors: input.excludeSelectors,
+    extractionMode: input.extractionMode,
+    gfmTables: input.gfmTables,
+    render: input.render,
+    format: 'markdown',
+    maxLength: Number.MAX_SAFE_INTEGER,
+  });
+  const page = await withRetry(
+    () => fetchWebPage({ ...pageInput, url }, politeness),
+    input.maxRetries,
+    input.retryDelay
+  );
+
+  const { previous, current } = await recordSnapshot(
+    url,
+    {
+      selector,
+      excludeSelectors: pageInput.excludeSelectors,
+      extractionMode: pageInput.extractionMode,
+      gfmTables: pageInput.gfmTables,
+      render: pageInput.render,
+    },
+    page.content,
+    config
+  );
+  const result: WebPageDiffResult = {
+    url,
+    selector,
+    title: page.title,
+    changed: Boolean(previous && previous.hash !== current.hash),
+    firstSnapshot: !previous,
+    previousCheckedAt: previous?.checkedAt,
+    fetchedAt: current.fetchedAt,
+  };
+  if (!previous || !result.changed) return result;
+
+  return {
+    ...result,
+    ...diffDocuments(previous.content, current.content, {
+      label: url,
+      previousHeader: previous.checkedAt,
+      currentHeader: current.checkedAt,
+      contextLines: input.contextLines,
+    }),
+  };
+}
@@ -2,10 +2,79 @@ import { Website } from '@spider-rs/spider-rs';
 import * as cheerio from 'cheerio';
 import { z } from 'zod';
 import TurndownService from 'turndown';
+import fetch from 'node-fetch';
 
+import { readChunk } from '../utils/chunking.js';
+import {
+  BINARY_DOCUMENT_KINDS,
+  DOCUMENT_MIME_TYPES,
+  decodeText,
+  detectDocumentKind,
+  docxToHtml,
+  formatJson,
+  kindFromContentType,
+  kindFromUrl,
+  odtToHtml,
+  xmlToText,
+  type DocumentKind,
+} from '../utils/documents.js';
+import {
+  extractImages,
+  extractLinks,
+  type PageImage,
+  type PageLink,
+} from '../utils/links.js';
+import { extractPdf } from '../utils/pdf.js';
+import { extractMetadata, type PageMetadata } from '../utils/metadata.js';
+import {
+  extractTables,
+  parseTable,
+  renderGfmTable,
+  type ExtractedTable,
+} from '../utils/tables.js';
+import {
+  OUTPUT_FORMATS,
+  buildOutline,
+  cleanHtml,
+  htmlToText,
+  renderOutline,
+  type OutlineHeading,
+  type OutputFormat,
+} from '../utils/formats.js';
+import {
+  cachePage,
+  getCachedPage,
+  type CachedPage,
+} from '../utils/page-cache.js';
+import {
+  isBlockedByRobots,
+  loadPolitenessConfig,
+  politeRequest,
+  type PolitenessConfig,
+} from '../utils/politeness.js';
+import { EXTRACTION_MODES, extractContentHtml } from '../utils/readability.js';
+import {
+  RENDER_MODES,
+  looksLikeJsShell,
+  type RenderMode,
+  type RenderPath,
+} from '../utils/render.js';
+import {
+  DEFAULT_USER_AGENT,
+  HTML_ACCEPT,
+  buildRequestHeaders,
+  hasRequestBody,
+  redactHeaders,
+  redactSecrets,
+  requestOptionsSchema,
+  type RequestOptions,
+} from '../utils/request.js';
 import { withRetry } from '../utils/retry.js';
 import pLimit from 'p-limit';
 
+// Time allowed for downloading a document such as a PDF or DOCX
+const DOCUMENT_TIMEOUT = 60000;
+
 export const webPageSchema = z.object({
   urls: z.array(z.string()).describe('URLs of the web pages to fetch'),
   includeImages: z
@@ -18,13 +87,81 @@ export const webPageSchema = z.object({
     .optional()
     .default(false)
     .describe('Include links in the response'),
+  internalLinksOnly: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Only return links to the page's own site (www. ignored), leaving out external ones"
+    ),
   maxLength: z
     .number()
+    .int()
+    .min(1)
     .optional()
     .default(50000)
     .describe(
       'Maximum length of content to return (default: 50000 characters)'
     ),
+  selector: z
+    .string()
+    .optional()
+    .describe(
+      'CSS selector of the part of the page to convert, e.g. #changelog or table.pricing; overrides extractionMode'
+    ),
+  excludeSelectors: z
+    .array(z.string())
+    .optional()
+    .describe('CSS selectors of elements to remove before conversion'),
+  extractTables: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Return each table of the content as JSON headers and rows, with merged cells expanded'
+    ),
+  gfmTables: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Render tables as GitHub Flavored Markdown pipe tables'),
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .default('markdown')
+    .describe(
+      'Output format: markdown, text (plain text), html (cleaned HTML) or outline (heading tree with offsets into the markdown)'
+    ),
+  startIndex: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe(
+      'Character offset to start reading from; pass nextOffset from a previous response to continue a long page'
+    ),
+  jsonPath: z
+    .string()
+    .optional()
+    .describe(
+      'JSONPath filter for JSON documents, e.g. $.items[*].name or $..id; the matches are returned as an array'
+    ),
+  extractionMode: z
+    .enum(EXTRACTION_MODES)
+    .optional()
+    .default('auto')
+    .describe(
+      'How to find the main content: auto (content container, else whole page), readability (score blocks and strip boilerplate) or full (whole page)'
+    ),
+  render: z
+    .enum(RENDER_MODES)
+    .optional()
+    .default('auto')
+    .describe(
+      'How to fetch the page: auto (plain HTTP, switching to a headless browser for JavaScript-only pages), static (plain HTTP only) or browser (always headless Chrome)'
+    ),
+  request: requestOptionsSchema.optional(),
   maxRetries: z
     .number()
     .optional()
@@ -44,28 +181,53 @@ export const webPageSchema = z.object({
 
 export type WebPageInput = z.infer<typeof webPageSchema>;
 
-interface WebPageResult {
+/**
+ * Options for turning one fetched page into a result
+ */
+export type PageExtractionOptions = Omit<
+  WebPageInput,
+  'urls' | 'render' | 'request' | 'maxRetries' | 'retryDelay' | 'concurrency'
+> & { url: string };
+
+export interface WebPageResult {
   url: string;
   title: string;
+  /** Detected MIME type of the document, e.g. text/html or application/json */
+  contentType?: string;
+  /** Whether a plain HTTP fetch or the headless browser served the page */
+  renderedWith?: RenderPath;
+  format: OutputFormat;
   content: string;
-  images?: string[];
-  links?: string[];
-  metadata: {
-    description?: string;
-    keywords?: string;
-    author?: string;
-    publishDate?: string;
-  };
+  /** Headings of the page, for the outline format */
+  outline?: OutlineHeading[];
+  /** Tables of the content, when extractTables is set */
+  tables?: ExtractedTable[];
+  /** Length of the whole extracted document */
+  totalLength: number;
+  /** Whether content continues past this chunk */
+  hasMore: boolean;
+  /** Pass back as `startIndex` to read the following chunk */
+  nextOffset?: number;
+  images?: PageImage[];
+  links?: PageLink[];
+  metadata: PageMetadata;
   error?: string;
+  /** Set when robots.txt disallows fetching the page */
+  blockedByRobots?: boolean;
+  /** Headers set through `request`, with credentials redacted */
+  requestHeaders?: Record<string, string>;
 }
 
-export async function webPageTool(input: WebPageInput) {
+export async function webPageTool(
+  input: WebPageInput,
+  config: PolitenessConfig = loadPolitenessConfig()
+) {
   const limit = pLimit(input.concurrency);
   const tasks = input.urls.map((url) =>
     limit(async () => {
       try {
         return await withRetry(
-          () => fetchWebPage({ ...input, url }),
+          () => fetchWebPage({ ...input, url }, config),
           input.maxRetries,
           input.retryDelay
         );
@@ -73,12 +235,16 @@ export async function webPageTool(input: WebPageInput) {
         return {
           url,
           title: 'Error',
+          format: input.format,
           content: '',
+          totalLength: 0,
+          hasMore: false,
           metadata: {},
           error:
             error instanceof Error
               ? error.message
               : String(error) || 'Unknown error occurred',
+          blockedByRobots: isBlockedByRobots(error) || undefined,
         } as WebPageResult;
       }
     })
@@ -91,7 +257,10 @@ export async function webPageTool(input: WebPageInput) {
       : {
           url: input.urls[i],
           title: 'Error',
+          format: input.format,
           content: '',
+          totalLength: 0,
+          hasMore: false,
           metadata: {},
           error:
             r.reason instanceof Error
@@ -104,68 +273,267 @@ export async function webPageTool(input: WebPageInput) {
     content: [
       {
         type: 'text' as const,
-        text: JSON.stringify(results, null, 2),
+        text: redactSecrets(JSON.stringify(results, null, 2), input.request),
       },
     ],
   };
 }
 
-async function fetchWebPage(
-  input: WebPageInput & { url: string }
+export async function fetchWebPage(
+  input: WebPageInput & { url: string },
+  config: PolitenessConfig = loadPolitenessConfig()
 ): Promise<WebPageResult> {
-  const { url, includeImages, includeLinks, maxLength } = input;
+  const { url, request } = input;
 
-  const w = new Website(url)
-    .withChromeIntercept(true, true)
-    .withBudget({ '*': 3 })
-    .build();
+  // Later chunks of a page reuse the copy fetched for the first one.
+  // Pages fetched with request options are cached apart, so credentials
+  // or a request body never serve another call's copy.
+  const cacheKey = request ? `${url}\n${JSON.stringify(request)}` : url;
+  let page = (input.startIndex ?? 0) > 0 ? getCachedPage(cacheKey) : undefined;
+  if (!page) {
+    page = await politeRequest(url, config, () =>
+      scrapePage(url, input.render ?? 'auto', request)
+    );
+    cachePage(cacheKey, page);
+  }
 
-  w.withHeaders({
-    'User-Agent':
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
-    Accept:
-      'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.9',
-    'Accept-Language': 'en-US,en;q=0.9',
-  });
+  const result = await extractWebPage(input, page);
+  return request
+    ? { ...result, requestHeaders: redactHeaders(buildRequestHeaders(request)) }
+    : result;
+}
 
-  await w.scrape();
-  const page = w.getPages()[0];
+/**
+ * Extract the requested content from a page that has already been fetched
+ * @param input - Extraction options; `url` is reported as the result's URL
+ * @param page - Fetched page
+ */
+export async function extractWebPage(
+  input: PageExtractionOptions,
+  page: CachedPage
+): Promise<WebPageResult> {
+  const { url, includeImages, includeLinks, maxLength } = input;
+  const startIndex = input.startIndex ?? 0;
 
-  if (!page?.content) {
-    throw new Error(`Failed to fetch content from ${url}`);
+  const kind = kindFromContentType(page.contentType) ?? 'html';
+  if (kind === 'pdf') {
+    return await readPdf(input, page);
+  }
+  if (
+    kind === 'json' ||
+    kind === 'xml' ||
+    kind === 'text' ||
+    kind === 'markdown'
+  ) {
+    return readTextDocument(input, page, kind);
   }
 
-  const $ = cheerio.load(page.content);
+  // Office documents are converted to HTML and extracted like a page
+  let html = page.content;
+  if (kind === 'docx') {
+    html = await docxToHtml(documentData(page));
+  } else if (kind === 'odt') {
+    html = await odtToHtml(documentData(page));
+  }
+
+  const $ = cheerio.load(html);
 
   // Extract title
-  const title = $('title').text().trim() || 'No title found';
-
-  // Try to find main content area first
-  let contentHtml = '';
-  const mainSelectors = [
-    'main',
-    'article',
-    '[role="main"]',
-    '.main-content',
-    '.content',
-    '.post-content',
-    '.entry-content',
-  ];
-
-  for (const selector of mainSelectors) {
-    const element = $(selector);
-    if (element.length > 0) {
-      contentHtml = element.html() || '';
-      break;
+  const title =
+    $('title').text().trim() ||
+    (kind === 'html' ? '' : fileName(page.url)) ||
+    'No title found';
+
+  // Read before exclusions, which may remove the head or JSON-LD scripts
+  const metadata = extractMetadata($, page.url);
+
+  for (const selector of input.excludeSelectors ?? []) {
+    selectElements($, selector, url).remove();
+  }
+
+  let contentHtml: string;
+  if (input.selector) {
+    const matches = selectElements($, input.selector, url);
+    if (!matches.length) {
+      throw Object.assign(
+        new Error(`Selector "${input.selector}" matched no elements on ${url}`),
+        { statusCode: 400 }
+      );
+    }
+    contentHtml = matches
+      .toArray()
+      .map((element) => $.html(element))
+      .join('\n');
+  } else {
+    contentHtml = extractContentHtml($, input.extractionMode);
+  }
+
+  // Offsets in the outline point into the markdown, so it is built from it
+  const format = input.format ?? 'markdown';
+  let document: string;
+  let outline: OutlineHeading[] | undefined;
+  if (format === 'text') {
+    document = htmlToText(contentHtml);
+  } else if (format === 'html') {
+    document = cleanHtml(contentHtml, page.url);
+  } else {
+    document = toMarkdown(contentHtml, input.gfmTables);
+    if (format === 'outline') {
+      outline = buildOutline(document);
     }
   }
 
-  // If no main content found, fall back to body
-  if (!contentHtml) {
-    contentHtml = $('body').html() || '';
+  const chunk = readDocument(document, outline, startIndex, maxLength);
+
+  const images = includeImages ? extractImages($, page.url) : undefined;
+  const links = includeLinks
+    ? extractLinks($, page.url, input.internalLinksOnly)
+    : undefined;
+
+  return {
+    url,
+    title,
+    contentType: DOCUMENT_MIME_TYPES[kind],
+    renderedWith: page.renderedWith,
+    format,
+    ...chunk,
+    outline,
+    tables: input.extractTables ? extractTables(contentHtml) : undefined,
+    images,
+    links,
+    metadata,
+  };
+}
+
+/**
+ * Cut the requested chunk out of an extracted document. An outline is
+ * returned whole instead of the document.
+ */
+function readDocument(
+  document: string,
+  outline: OutlineHeading[] | undefined,
+  startIndex: number,
+  maxLength: number
+): Pick<WebPageResult, 'content' | 'totalLength' | 'hasMore' | 'nextOffset'> {
+  const { content, end } = outline
+    ? { content: renderOutline(outline), end: document.length }
+    : readChunk(document, startIndex, maxLength);
+  const hasMore = end < document.length;
+  return {
+    content,
+    totalLength: document.length,
+    hasMore,
+    nextOffset: hasMore ? end : undefined,
+  };
+}
+
+/**
+ * Build the result for a JSON, XML, plain text or markdown document.
+ * JSON is pretty-printed and XML rendered as an indented tree; text and
+ * markdown are returned as served, whatever the requested format.
+ */
+function readTextDocument(
+  input: PageExtractionOptions,
+  page: CachedPage,
+  kind: Extract<DocumentKind, 'json' | 'xml' | 'text' | 'markdown'>
+): WebPageResult {
+  const { url, maxLength } = input;
+  const format = input.format ?? 'markdown';
+
+  let document = page.content;
+  if (kind === 'json') {
+    document = formatJson(page.content, input.jsonPath);
+  } else if (kind === 'xml') {
+    document = xmlToText(page.content);
+  }
+  const outline =
+    format === 'outline' && kind === 'markdown'
+      ? buildOutline(document)
+      : undefined;
+
+  return {
+    url,
+    title: fileName(page.url) || 'No title found',
+    contentType: DOCUMENT_MIME_TYPES[kind],
+    renderedWith: page.renderedWith,
+    format,
+    ...readDocument(document, outline, input.startIndex ?? 0, maxLength),
+    outline,
+    metadata: {},
+  };
+}
+
+/**
+ * Build the result for a PDF. Every format returns the extracted text,
+ * which is already plain; the outline lists the page headings.
+ */
+async function readPdf(
+  input: PageExtractionOptions,
+  page: CachedPage
+): Promise<WebPageResult> {
+  const { url, maxLength } = input;
+  const format = input.format ?? 'markdown';
+  const pdf = await extractPdf(documentData(page));
+  const outline = format === 'outline' ? buildOutline(pdf.text) : undefined;
+
+  return {
+    url,
+    title: pdf.title || fileName(url) || 'No title found',
+    contentType: DOCUMENT_MIME_TYPES.pdf,
+    renderedWith: page.renderedWith,
+    format,
+    ...readDocument(pdf.text, outline, input.startIndex ?? 0, maxLength),
+    outline,
+    metadata: {
+      author: pdf.author,
+      publishDate: pdf.createdDate,
+      modifiedDate: pdf.modifiedDate,
+      pageCount: pdf.pageCount,
+    },
+  };
+}
+
+/**
+ * Last path segment of a URL, the best title a bare document has
+ */
+function fileName(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  } catch {
+    return '';
+  }
+}
+
+function documentData(page: CachedPage): Uint8Array {
+  if (!page.data) {
+    throw new Error(`No document data was downloaded from ${page.url}`);
   }
+  return page.data;
+}
 
-  // Convert HTML to markdown with optimized settings
+/**
+ * Query the page, reporting malformed selectors as a caller error
+ * instead of a parser exception that would be retried
+ */
+function selectElements($: cheerio.CheerioAPI, selector: string, url: string) {
+  try {
+    return $(selector);
+  } catch (error) {
+    throw Object.assign(
+      new Error(
+        `Invalid selector "${selector}" for ${url}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      ),
+      { statusCode: 400 }
+    );
+  }
+}
+
+/**
+ * Convert content HTML to markdown with optimized settings
+ */
+function toMarkdown(html: string, gfmTables = false): string {
   const turndownService = new TurndownService({
     headingStyle: 'atx',
     codeBlockStyle: 'fenced',
@@ -185,71 +553,158 @@ async function fetchWebPage(
     },
   });
 
-  let content = turndownService.turndown(contentHtml);
-
-  // Truncate if needed (after markdown conversion to match test expectations)
-  if (content.length > maxLength) {
-    content = content.substring(0, maxLength) + '...';
+  if (gfmTables) {
+    turndownService.addRule('gfmTables', {
+      filter: 'table',
+      replacement: function (_content, node) {
+        const $ = cheerio.load((node as HTMLElement).outerHTML);
+        return (
+          '\n\n' + renderGfmTable(parseTable($, $('table').first())) + '\n\n'
+        );
+      },
+    });
   }
 
-  // Extract metadata
-  const metadata = {
-    description: $('meta[name="description"]').attr('content'),
-    keywords: $('meta[name="keywords"]').attr('content'),
-    author: $('meta[name="author"]').attr('content'),
-    publishDate:
-      $('meta[property="article:published_time"]').attr('content') ||
-      $('meta[name="publishdate"]').attr('content'),
-  };
+  return turndownService.turndown(html);
+}
 
-  // Extract images if requested
-  let images: string[] | undefined;
-  if (includeImages) {
-    const imageUrls: string[] = [];
-    $('img').each((_, img) => {
-      const src = $(img).attr('src');
-      if (src && !src.startsWith('data:')) {
-        try {
-          const resolvedUrl = new URL(src, url).toString();
-          imageUrls.push(resolvedUrl);
-        } catch (error) {
-          console.log(
-            `[web-page] Failed to resolve image URL: ${src} relative to ${url}`,
-            error
-          );
-        }
-      }
-    });
-    images = imageUrls;
-  }
-
-  // Extract links if requested
-  let links: string[] | undefined;
-  if (includeLinks) {
-    const linkUrls: string[] = [];
-    $('a[href]').each((_, a) => {
-      const href = $(a).attr('href');
-      if (href && !href.startsWith('#') && !href.startsWith('mailto:')) {
-        try {
-          const resolvedUrl = new URL(href, url).toString();
-          linkUrls.push(resolvedUrl);
-        } catch (error) {
-          console.log(
-            `[web-page] Failed to resolve link URL: ${href} relative to ${url}`,
-            error
-          );
-        }
-      }
+/**
+ * Download a page or document over plain HTTP. Binary documents keep
+ * their raw bytes; everything else is decoded.
+ * @param accept - Accept header, asking for HTML when a page is expected
+ * @param request - Headers, method and body of the tool call
+ */
+async function fetchDocument(
+  url: string,
+  accept = '*/*',
+  request?: RequestOptions
+): Promise<CachedPage> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DOCUMENT_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      method: request?.method ?? 'GET',
+      body: request?.body,
+      headers: buildRequestHeaders(request, {
+        'User-Agent': DEFAULT_USER_AGENT,
+        Accept: accept,
+        'Accept-Language': 'en-US,en;q=0.9',
+      }),
     });
-    links = linkUrls;
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`HTTP ${response.status}: ${response.statusText}`),
+        { statusCode: response.status }
+      );
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') ?? undefined;
+    // Servers often label documents as application/octet-stream, so the
+    // first bytes are checked too
+    const kind = detectDocumentKind(
+      response.url || url,
+      contentType,
+      new TextDecoder().decode(data.subarray(0, 1024))
+    );
+    const binary = BINARY_DOCUMENT_KINDS.includes(kind);
+    return {
+      url: response.url || url,
+      content: binary ? '' : decodeText(data, contentType),
+      statusCode: response.status,
+      contentType: DOCUMENT_MIME_TYPES[kind],
+      data: binary ? data : undefined,
+      renderedWith: 'static',
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch a page the way the render mode asks. In auto mode the plain HTTP
+ * copy is kept unless it looks like an empty JavaScript shell or could
+ * not be fetched; pages that are missing are not retried in the browser.
+ * The browser only sends GET requests, so other methods and request
+ * bodies always go over plain HTTP.
+ */
+async function scrapePage(
+  url: string,
+  render: RenderMode,
+  request?: RequestOptions
+): Promise<CachedPage> {
+  // Links to documents are downloaded directly instead of opened in the
+  // browser
+  const linked = kindFromUrl(url);
+  if (linked && linked !== 'html') {
+    return await fetchDocument(url, '*/*', request);
+  }
+  if (render === 'static' || hasRequestBody(request)) {
+    return await fetchDocument(url, HTML_ACCEPT, request);
+  }
+  if (render === 'browser') {
+    return await renderPage(url, request);
+  }
+
+  let page: CachedPage;
+  try {
+    page = await fetchDocument(url, HTML_ACCEPT, request);
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (statusCode === 404 || statusCode === 410) throw error;
+    return await renderPage(url, request);
+  }
+
+  return page.contentType === DOCUMENT_MIME_TYPES.html &&
+    looksLikeJsShell(page.content)
+    ? await renderPage(page.url, request)
+    : page;
+}
+
+/**
+ * Render a page in headless Chrome, for pages built by JavaScript
+ */
+async function renderPage(
+  url: string,
+  request?: RequestOptions
+): Promise<CachedPage> {
+  const w = new Website(url)
+    .withChromeIntercept(true, true)
+    // Only the page itself: linked pages would skip robots.txt and pacing
+    .withBudget({ '*': 1 })
+    .build();
+
+  w.withHeaders(
+    buildRequestHeaders(request, {
+      'User-Agent': DEFAULT_USER_AGENT,
+      Accept: HTML_ACCEPT,
+      'Accept-Language': 'en-US,en;q=0.9',
+    })
+  );
+
+  await w.scrape();
+  const page = w.getPages()[0];
+
+  if (!page?.content) {
+    throw new Error(`Failed to fetch content from ${url}`);
+  }
+
+  const kind = detectDocumentKind(
+    page.url || url,
+    page.headers?.['content-type'],
+    page.content.slice(0, 1024)
+  );
+  if (kind !== 'html') {
+    return await fetchDocument(page.url || url, '*/*', request);
   }
 
   return {
-    url,
-    title,
-    content,
-    images,
-    links,
-    metadata,
+    url: page.url || url,
+    content: page.content,
+    statusCode: page.statusCode,
+    contentType: DOCUMENT_MIME_TYPES.html,
+    renderedWith: 'browser',
   };
 }
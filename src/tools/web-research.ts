@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import pLimit from 'p-limit';
+
+import { loadSearchConfig, type SearchConfig } from '../providers/index.js';
+import {
+  loadPolitenessConfig,
+  type PolitenessConfig,
+} from '../utils/politeness.js';
+import { withRetry } from '../utils/retry.js';
+import { fetchWebPage, webPageSchema } from './web-page.js';
+import { performWebSearch, webSearchSchema } from './web-search.js';
+
+export const webResearchSchema = webSearchSchema
+  .omit({ maxResults: true, cursor: true, vertical: true, request: true })
+  .extend({
+    topN: z
+      .number()
+      .optional()
+      .default(3)
+      .describe('Number of top search results to fetch and read'),
+    maxLength: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .default(5000)
+      .describe('Maximum content length per source (default: 5000 characters)'),
+    concurrency: z
+      .number()
+      .optional()
+      .default(3)
+      .describe('Maximum number of pages fetched in parallel'),
+    render: webPageSchema.shape.render.describe(
+      'How to fetch each source: auto (plain HTTP, switching to a headless browser for JavaScript-only pages), static (plain HTTP only) or browser (always headless Chrome)'
+    ),
+  });
+
+export type WebResearchInput = z.infer<typeof webResearchSchema>;
+
+export interface ResearchSource {
+  /** 1-based source number for citations */
+  index: number;
+  title: string;
+  url: string;
+  snippet: string;
+  content?: string;
+  error?: string;
+}
+
+export async function webResearchTool(
+  input: WebResearchInput,
+  config: SearchConfig = loadSearchConfig(),
+  politeness: PolitenessConfig = loadPolitenessConfig()
+) {
+  const { topN, maxLength, concurrency, render, ...searchInput } = input;
+
+  let search;
+  try {
+    search = await withRetry(
+      () =>
+        performWebSearch(
+          { ...searchInput, maxResults: topN, vertical: 'web' },
+          config
+        ),
+      input.maxRetries,
+      input.retryDelay
+    );
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error performing web search after ${
+            input.maxRetries
+          } attempts: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const pageDefaults = webPageSchema.parse({
+    urls: [],
+    maxLength,
+    render,
+    maxRetries: input.maxRetries,
+    retryDelay: input.retryDelay,
+  });
+  const limit = pLimit(concurrency);
+
+  // A page that cannot be fetched is reported on its own source only
+  const sources: ResearchSource[] = await Promise.all(
+    search.results.slice(0, topN).map((result, i) =>
+      limit(async () => {
+        const source: ResearchSource = {
+          index: i + 1,
+          title: result.title,
+          url: result.url,
+          snippet: result.snippet,
+        };
+        try {
+          const page = await withRetry(
+            () =>
+              fetchWebPage({ ...pageDefaults, url: result.url }, politeness),
+            input.maxRetries,
+            input.retryDelay
+          );
+          source.content = page.content;
+        } catch (error) {
+          source.error =
+            error instanceof Error
+              ? error.message
+              : String(error) || 'Unknown error occurred';
+        }
+        return source;
+      })
+    )
+  );
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            query: input.query,
+            searchQuery: search.searchQuery,
+            provider: search.provider,
+            sources,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
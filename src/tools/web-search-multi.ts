@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import pLimit from 'p-limit';
+
+import {
+  loadSearchConfig,
+  type SearchConfig,
+  type SearchResult,
+} from '../providers/index.js';
+import { withRetry } from '../utils/retry.js';
+import { normalizeUrl } from '../utils/url.js';
+import { performWebSearch, webSearchSchema } from './web-search.js';
+
+// Standard reciprocal rank fusion constant; dampens the weight of top ranks
+const RRF_K = 60;
+
+export const webSearchMultiSchema = webSearchSchema
+  .omit({
+    query: true,
+    maxResults: true,
+    cursor: true,
+    vertical: true,
+    request: true,
+  })
+  .extend({
+    queries: z
+      .array(z.string())
+      .min(1)
+      .describe('Alternative phrasings of the same question to run together'),
+    maxResultsPerQuery: z
+      .number()
+      .optional()
+      .default(10)
+      .describe('Maximum number of results to fetch for each query'),
+    maxResults: z
+      .number()
+      .optional()
+      .default(20)
+      .describe('Maximum number of merged results to return'),
+    concurrency: z
+      .number()
+      .optional()
+      .default(3)
+      .describe('Maximum number of parallel searches'),
+  });
+
+export type WebSearchMultiInput = z.infer<typeof webSearchMultiSchema>;
+
+export interface FusedSearchResult extends SearchResult {
+  /** Reciprocal rank fusion score across all queries */
+  score: number;
+  /** Queries whose results included this URL */
+  matchedQueries: string[];
+}
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion, collapsing
+ * duplicates by normalized URL
+ * @param rankings - Results of each query, in rank order
+ * @param k - Fusion constant added to every rank
+ */
+export function fuseResults(
+  rankings: { query: string; results: SearchResult[] }[],
+  k = RRF_K
+): FusedSearchResult[] {
+  const merged = new Map<string, FusedSearchResult>();
+
+  for (const { query, results } of rankings) {
+    results.forEach((result, index) => {
+      const key = normalizeUrl(result.url);
+      const contribution = 1 / (k + index + 1);
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, {
+          ...result,
+          score: contribution,
+          matchedQueries: [query],
+        });
+        return;
+      }
+
+      existing.score += contribution;
+      if (!existing.matchedQueries.includes(query)) {
+        existing.matchedQueries.push(query);
+      }
+      // Keep the most informative snippet and date seen for this URL
+      if (result.snippet.length > existing.snippet.length) {
+        existing.snippet = result.snippet;
+      }
+      existing.date ??= result.date;
+    });
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score)
+    .map((result, index) => ({ ...result, position: index + 1 }));
+}
+
+export async function webSearchMultiTool(
+  input: WebSearchMultiInput,
+  config: SearchConfig = loadSearchConfig()
+) {
+  const { queries, maxResultsPerQuery, concurrency, ...shared } = input;
+  const limit = pLimit(concurrency);
+
+  const settled = await Promise.allSettled(
+    queries.map((query) =>
+      limit(() =>
+        withRetry(
+          () =>
+            performWebSearch(
+              {
+                ...shared,
+                query,
+                maxResults: maxResultsPerQuery,
+                vertical: 'web',
+              },
+              config
+            ),
+          input.maxRetries,
+          input.retryDelay
+        )
+      )
+    )
+  );
+
+  const rankings: { query: string; results: SearchResult[] }[] = [];
+  const errors: { query: string; error: string }[] = [];
+  settled.forEach((r, i) => {
+    if (r.status === 'fulfilled') {
+      rankings.push({ query: queries[i], results: r.value.results });
+    } else {
+      errors.push({
+        query: queries[i],
+        error: r.reason instanceof Error ? r.reason.message : String(r.reason),
+      });
+    }
+  });
+
+  if (!rankings.length) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error performing web searches: ${errors
+            .map((e) => `"${e.query}": ${e.error}`)
+            .join('; ')}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const results = fuseResults(rankings).slice(0, input.maxResults);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            queries,
+            results: results.map((r) => ({
+              position: r.position,
+              title: r.title,
+              url: r.url,
+              snippet: r.snippet,
+              source: r.source,
+              date: r.date,
+              score: Number(r.score.toFixed(4)),
+              matchedQueries: r.matchedQueries,
+            })),
+            errors: errors.length ? errors : undefined,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -1,11 +1,37 @@
-import { Website } from '@spider-rs/spider-rs';
-// Cheerio core
-import * as cheerio from 'cheerio';
-import type { Element } from 'domhandler';
-
+import { createHash } from 'crypto';
 import { z } from 'zod';
 
-import { withRetry } from '../utils/retry.js';
+import {
+  SEARCH_PROVIDER_NAMES,
+  SEARCH_REGIONS,
+  SEARCH_TIME_RANGES,
+  SEARCH_VERTICALS,
+  loadSearchConfig,
+  normalizeFilters,
+  resolveSearchProviders,
+  type SearchConfig,
+  type SearchFilters,
+  type SearchPage,
+  type SearchProvider,
+  type SearchProviderName,
+  type SearchResult,
+  type SearchVertical,
+  type ImageResult,
+  type NewsResult,
+  type VideoResult,
+} from '../providers/index.js';
+import {
+  compileQuery,
+  matchesDomainFilters,
+  type QueryOperators,
+} from '../providers/query.js';
+import {
+  redactSecrets,
+  requestOptionsSchema,
+  type RequestOptions,
+} from '../utils/request.js';
+import { isFatalError, withRetry } from '../utils/retry.js';
+import { normalizeUrl } from '../utils/url.js';
 
 export const webSearchSchema = z.object({
   query: z.string().describe('Search query to execute'),
@@ -15,14 +41,67 @@ export const webSearchSchema = z.object({
     .default(10)
     .describe('Maximum number of results to return'),
   region: z
-    .string()
+    .enum(SEARCH_REGIONS)
     .optional()
     .default('wt-wt')
-    .describe('Region for search results'),
+    .describe('Region for search results (e.g. us-en, de-de; wt-wt for none)'),
   time: z
-    .string()
+    .enum(SEARCH_TIME_RANGES)
     .optional()
     .describe('Time filter for search results (d, w, m, y)'),
+  dateFrom: z.iso
+    .date()
+    .optional()
+    .describe(
+      'Only return results published on or after this date (YYYY-MM-DD)'
+    ),
+  dateTo: z.iso
+    .date()
+    .optional()
+    .describe(
+      'Only return results published on or before this date (YYYY-MM-DD)'
+    ),
+  includeDomains: z
+    .array(z.string())
+    .optional()
+    .describe('Only return results from these domains (subdomains included)'),
+  excludeDomains: z
+    .array(z.string())
+    .optional()
+    .describe('Never return results from these domains (subdomains included)'),
+  fileType: z
+    .string()
+    .optional()
+    .describe('Restrict results to a file type, e.g. pdf'),
+  exactPhrase: z
+    .string()
+    .optional()
+    .describe('Phrase that must appear verbatim in results'),
+  excludeTerms: z
+    .array(z.string())
+    .optional()
+    .describe('Terms that must not appear in results'),
+  vertical: z
+    .enum(SEARCH_VERTICALS)
+    .optional()
+    .default('web')
+    .describe('Kind of results: web pages, news articles, images or videos'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('Continuation cursor from a previous response (nextCursor)'),
+  provider: z
+    .enum(SEARCH_PROVIDER_NAMES)
+    .optional()
+    .describe(
+      'Search backend to try first; other configured backends are used as fallback'
+    ),
+  request: requestOptionsSchema
+    .omit({ method: true, body: true })
+    .optional()
+    .describe(
+      'Headers, cookies, user agent and authentication sent to the search backend. Credentials are redacted from the output.'
+    ),
   maxRetries: z
     .number()
     .optional()
@@ -37,38 +116,98 @@ export const webSearchSchema = z.object({
 
 export type WebSearchInput = z.infer<typeof webSearchSchema>;
 
-interface SearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-  source: string;
+// Upper bound on result pages fetched by a single call
+const MAX_PAGES = 10;
+// Returned URLs a cursor remembers for de-duplicating later pages; older
+// ones are dropped to keep the cursor short
+const MAX_CURSOR_SEEN = 200;
+
+/** State carried by the opaque continuation cursor */
+interface CursorState {
+  provider: SearchProviderName;
+  query: string;
+  /** Provider state of the page to resume from, absent for the first page */
+  page?: Record<string, string>;
+  /** Results of that page already returned */
+  skip: number;
+  /** Fingerprint of the filters the results were fetched with */
+  filters: string;
+  /** Hashes of the URLs returned so far, most recent last */
+  seen: string[];
+  /** Results returned so far, so rank positions keep counting */
+  offset: number;
+}
+
+export interface WebSearchResponse {
+  provider: SearchProviderName;
+  /** Query sent to the provider, including compiled operators */
+  searchQuery: string;
+  results: SearchResult[];
+  filters: {
+    /** Filters passed on to the search engine */
+    applied: SearchFilters;
+    /** Requested filters the provider could not apply */
+    ignored: (keyof SearchFilters)[];
+  };
+  /** Pass back as `cursor` to continue where these results stopped */
+  nextCursor?: string;
+  /** Related searches suggested by the engine, for refining the query */
+  related?: string[];
 }
 
-export async function webSearchTool(input: WebSearchInput) {
+export interface VerticalSearchResponse {
+  provider: SearchProviderName;
+  searchQuery: string;
+  vertical: Exclude<SearchVertical, 'web'>;
+  results: (NewsResult | ImageResult | VideoResult)[];
+  filters: WebSearchResponse['filters'];
+}
+
+export async function webSearchTool(
+  input: WebSearchInput,
+  config: SearchConfig = loadSearchConfig()
+) {
   try {
-    const results = await withRetry(
-      () => performWebSearch(input),
-      input.maxRetries,
-      input.retryDelay
-    );
+    const vertical = input.vertical ?? 'web';
+    let output: object;
+
+    if (vertical === 'web') {
+      const response = await withRetry(
+        () => performWebSearch(input, config),
+        input.maxRetries,
+        input.retryDelay
+      );
+      output = {
+        query: input.query,
+        searchQuery: response.searchQuery,
+        provider: response.provider,
+        filters: response.filters,
+        results: response.results.map((r) => ({
+          position: r.position,
+          title: r.title,
+          url: r.url,
+          displayUrl: r.displayUrl,
+          snippet: r.snippet,
+          source: r.source,
+          date: r.date,
+        })),
+        nextCursor: response.nextCursor,
+        related: response.related,
+      };
+    } else {
+      const response = await withRetry(
+        () => performVerticalSearch(input, vertical, config),
+        input.maxRetries,
+        input.retryDelay
+      );
+      output = { query: input.query, ...response };
+    }
 
     return {
       content: [
         {
           type: 'text' as const,
-          text: JSON.stringify(
-            {
-              query: input.query,
-              results: results.map((r) => ({
-                title: r.title,
-                url: r.url,
-                snippet: r.snippet,
-                source: r.source,
-              })),
-            },
-            null,
-            2
-          ),
+          text: redactSecrets(JSON.stringify(output, null, 2), input.request),
         },
       ],
     };
@@ -77,11 +216,12 @@ export async function webSearchTool(input: WebSearchInput) {
       content: [
         {
           type: 'text' as const,
-          text: `Error performing web search after ${
-            input.maxRetries
-          } attempts: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
+          text: redactSecrets(
+            `Error performing web search after ${input.maxRetries} attempts: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            input.request
+          ),
         },
       ],
       isError: true,
@@ -89,119 +229,341 @@ export async function webSearchTool(input: WebSearchInput) {
   }
 }
 
-async function performWebSearch(
-  input: WebSearchInput
-): Promise<SearchResult[]> {
+/**
+ * Run a search against the configured providers in fallback order,
+ * returning the results of the first provider that succeeds.
+ * A cursor from an earlier response resumes with the provider that issued it.
+ */
+export async function performWebSearch(
+  input: WebSearchInput,
+  config: SearchConfig = loadSearchConfig()
+): Promise<WebSearchResponse> {
+  const query = compileQuery(input.query, input);
   const maxResults = input.maxResults || 10;
-  const query = input.query;
-
-  async function fetchSearch(url: string) {
-    const w = new Website(url)
-      .withChromeIntercept(true, true)
-      .withBudget({ '*': 1 })
-      .build();
-    w.withHeaders({
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
-      Accept:
-        'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.9',
-      'Accept-Language': 'en-US,en;q=0.9',
-      Referer: 'https://duckduckgo.com/',
+  const filters = normalizeFilters(input);
+  // The cursor records the compiled query, so changing operators invalidates it
+  const resume = input.cursor
+    ? decodeCursor(input.cursor, query, filtersFingerprint(filters, input))
+    : undefined;
+  const providers = resolveSearchProviders(
+    config,
+    resume?.provider ?? input.provider
+  );
+  const failures: string[] = [];
+  const errors: unknown[] = [];
+
+  for (const provider of resume ? providers.slice(0, 1) : providers) {
+    try {
+      const response = await collectPages(
+        provider,
+        {
+          query,
+          maxResults,
+          filters,
+          operators: input,
+          requestOptions: input.request,
+        },
+        resume
+      );
+      if (response.results.length) {
+        return response;
+      }
+      failures.push(`${provider.name}: no results`);
+      errors.push(undefined);
+    } catch (error) {
+      errors.push(error);
+      failures.push(
+        `${provider.name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  throw searchFailedError(
+    `No search results for query "${input.query}" (${failures.join('; ')})`,
+    errors
+  );
+}
+
+/**
+ * Error for a search no provider could answer. When every provider failed
+ * with a fatal 4xx, such as a rejected API key, the first status is kept so
+ * the search is not retried.
+ * @param errors - What each provider threw, undefined for no results
+ */
+function searchFailedError(message: string, errors: unknown[]): Error {
+  const error = new Error(message);
+  if (errors.length && errors.every(isFatalError)) {
+    return Object.assign(error, {
+      statusCode: (errors[0] as { statusCode: number }).statusCode,
     });
-    await w.scrape();
-    return w.getPages()[0] ?? null;
   }
+  return error;
+}
 
-  const primaryUrl = `https://duckduckgo.com/html/?q=${encodeURIComponent(
-    query
-  )}`;
-  let page = await fetchSearch(primaryUrl);
-
-  // Fallback to lite version if needed
-  if (!page?.content || (page.statusCode && page.statusCode >= 400)) {
-    const liteUrl = `https://lite.duckduckgo.com/lite/?q=${encodeURIComponent(
-      query
-    )}`;
-    page = await fetchSearch(liteUrl);
+/**
+ * Search news, images or videos with the first configured provider that
+ * supports the vertical. Verticals return a single batch without a cursor.
+ */
+export async function performVerticalSearch(
+  input: WebSearchInput,
+  vertical: Exclude<SearchVertical, 'web'>,
+  config: SearchConfig = loadSearchConfig()
+): Promise<VerticalSearchResponse> {
+  if (input.cursor) {
+    throw Object.assign(
+      new Error('Cursors are only supported for web results'),
+      { statusCode: 400 }
+    );
   }
 
-  if (!page) {
-    throw new Error(`No results retrieved for query "${query}"`);
+  const query = compileQuery(input.query, input);
+  const maxResults = input.maxResults || 10;
+  const filters = normalizeFilters(input);
+  const providers = resolveSearchProviders(config, input.provider).filter(
+    (provider) => provider.searchVertical
+  );
+  if (!providers.length) {
+    throw Object.assign(
+      new Error(
+        `No configured search provider supports the ${vertical} vertical`
+      ),
+      { statusCode: 400 }
+    );
   }
 
-  // Helper to resolve relative URLs and extract DDG redirect links
-  const extractLinks = (
-    $: cheerio.CheerioAPI,
-    baseUrl: string,
-    selector: string
-  ) => {
-    const extractLink = (_: number, el: Element) => {
-      const $el = $(el);
-      const hrefAttr = $el.attr('href');
-      if (!hrefAttr) return null;
-
-      try {
-        const url = new URL(hrefAttr, baseUrl);
-
-        if (url.hostname.endsWith('duckduckgo.com') && url.pathname === '/l/') {
-          const targetUrl = url.searchParams.get('uddg');
-          if (targetUrl) {
-            return { href: targetUrl, text: $el.text().trim() };
-          }
-        }
-        return { href: url.toString(), text: $el.text().trim() };
-      } catch {
-        return null;
-      }
-    };
-    return ($(selector) as unknown as cheerio.Cheerio<Element>)
-      .map(extractLink)
-      .get()
-      .filter(isNotNull);
-  };
+  const failures: string[] = [];
+  const errors: unknown[] = [];
+  for (const provider of providers) {
+    try {
+      const page = await provider.searchVertical!(vertical, {
+        query,
+        maxResults,
+        filters,
+        requestOptions: input.request,
+      });
 
-  // Load once, then try different selectors
-  const $ = cheerio.load(page.content || '');
-  let links = extractLinks($, page.url, 'a.result__a');
+      // Images of one page are distinct results, so key them by image URL
+      const seen = new Set<string>();
+      const results = (
+        page.results as (NewsResult | ImageResult | VideoResult)[]
+      )
+        .filter((result) => {
+          if (!matchesDomainFilters(result.source, input)) return false;
+          const key = normalizeUrl(
+            vertical === 'images'
+              ? (result as ImageResult).imageUrl
+              : result.url
+          );
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, maxResults)
+        .map((result, index) => ({ ...result, position: index + 1 }));
 
-  // Lite selectors fallback
-  if (!links.length) {
-    links = extractLinks($, page.url, 'td.result-link > a, a.result-link');
+      if (results.length) {
+        const ignored = (
+          Object.keys(filters) as (keyof SearchFilters)[]
+        ).filter((key) => page.appliedFilters[key] === undefined);
+        return {
+          provider: provider.name,
+          searchQuery: query,
+          vertical,
+          results,
+          filters: { applied: page.appliedFilters, ignored },
+        };
+      }
+      failures.push(`${provider.name}: no results`);
+      errors.push(undefined);
+    } catch (error) {
+      errors.push(error);
+      failures.push(
+        `${provider.name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
   }
 
-  links = links.slice(0, maxResults);
-
-  // Last resort – retry lite interface directly if not already done
-  if (!links.length) {
-    const liteUrl = `https://lite.duckduckgo.com/lite/?q=${encodeURIComponent(
-      query
-    )}`;
-    const litePage = await fetchSearch(liteUrl);
-    if (litePage && litePage.content) {
-      const $lite = cheerio.load(litePage.content);
-      links = extractLinks(
-        $lite,
-        litePage.url,
-        'td.result-link > a, a.result-link, a.result__a'
-      ).slice(0, maxResults);
+  throw searchFailedError(
+    `No ${vertical} results for query "${input.query}" (${failures.join('; ')})`,
+    errors
+  );
+}
+
+/**
+ * Follow a provider's result pages until enough unique results are collected
+ */
+async function collectPages(
+  provider: SearchProvider,
+  request: {
+    query: string;
+    maxResults: number;
+    filters: SearchFilters;
+    operators: QueryOperators;
+    requestOptions?: RequestOptions;
+  },
+  resume?: CursorState
+): Promise<WebSearchResponse> {
+  const { query, maxResults, filters, operators, requestOptions } = request;
+  const results: SearchResult[] = [];
+  // Resumed searches also skip what earlier pages returned
+  const seen = new Set<string>(resume?.seen);
+  const offset = resume?.offset ?? 0;
+  let pageState = resume?.page;
+  let skip = resume?.skip ?? 0;
+  let appliedFilters: SearchFilters = {};
+  let related: string[] | undefined;
+  let next: CursorState | undefined;
+
+  const cursorAt = (
+    page: Record<string, string> | undefined,
+    consumed: number
+  ): CursorState => ({
+    provider: provider.name,
+    query,
+    page,
+    skip: consumed,
+    offset: offset + results.length,
+    filters: filtersFingerprint(filters, operators),
+    seen: [...seen].slice(-MAX_CURSOR_SEEN),
+  });
+
+  for (let pages = 0; ; pages++) {
+    if (pages === MAX_PAGES) {
+      next = cursorAt(pageState, skip);
+      break;
     }
-  }
 
-  if (!links.length) {
-    throw new Error(`No search results parsed for query "${query}".`);
+    let page: SearchPage;
+    try {
+      page = await provider.search({
+        query,
+        maxResults,
+        filters,
+        cursor: pageState,
+        requestOptions,
+      });
+    } catch (error) {
+      // A failing later page should not discard the results already collected
+      if (!results.length) throw error;
+      next = cursorAt(pageState, skip);
+      break;
+    }
+    appliedFilters = page.appliedFilters;
+    if (!related?.length) related = page.related;
+
+    let consumed = skip;
+    for (const result of page.results.slice(skip)) {
+      if (results.length >= maxResults) break;
+      consumed++;
+
+      if (!matchesDomainFilters(result.source, operators)) continue;
+      const key = urlHash(result.url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push({ ...result, position: offset + results.length + 1 });
+    }
+
+    if (consumed < page.results.length) {
+      // Resume inside this page on the next call
+      next = cursorAt(pageState, consumed);
+      break;
+    }
+    if (!page.nextCursor || !page.results.length) break;
+
+    pageState = page.nextCursor;
+    skip = 0;
+    if (results.length >= maxResults) {
+      next = cursorAt(pageState, 0);
+      break;
+    }
   }
 
-  // Convert to SearchResult format
-  const results: SearchResult[] = links.map((link) => ({
-    title: link.text,
-    url: link.href,
-    snippet: '', // We could add snippet extraction here if needed
-    source: new URL(link.href).hostname,
-  }));
+  const ignored = (Object.keys(filters) as (keyof SearchFilters)[]).filter(
+    (key) => appliedFilters[key] === undefined
+  );
+
+  return {
+    provider: provider.name,
+    searchQuery: query,
+    results,
+    filters: { applied: appliedFilters, ignored },
+    nextCursor: next && encodeCursor(next),
+    related: related?.length ? related : undefined,
+  };
+}
+
+/**
+ * Short hash of a result URL, by its normalized form
+ */
+function urlHash(url: string): string {
+  return createHash('sha256')
+    .update(normalizeUrl(url))
+    .digest('base64url')
+    .slice(0, 12);
+}
+
+/**
+ * Fingerprint of the filters and operators of a search, so a cursor is
+ * only resumed with the ones it was issued for
+ */
+function filtersFingerprint(
+  filters: SearchFilters,
+  operators: QueryOperators
+): string {
+  const sorted = Object.fromEntries(
+    Object.entries(filters).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        sorted,
+        operators.includeDomains ?? [],
+        operators.excludeDomains ?? [],
+        operators.fileType ?? '',
+        operators.exactPhrase ?? '',
+        operators.excludeTerms ?? [],
+      ])
+    )
+    .digest('base64url')
+    .slice(0, 16);
+}
 
-  return results;
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
 }
 
-function isNotNull<T>(value: T | null): value is T {
-  return value !== null;
+function decodeCursor(
+  cursor: string,
+  query: string,
+  filters: string
+): CursorState {
+  let state: CursorState | undefined;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    state = undefined;
+  }
+
+  if (
+    !state ||
+    !(SEARCH_PROVIDER_NAMES as readonly string[]).includes(state.provider) ||
+    !Array.isArray(state.seen)
+  ) {
+    throw Object.assign(new Error('Invalid search cursor'), {
+      statusCode: 400,
+    });
+  }
+  if (state.query !== query) {
+    throw Object.assign(
+      new Error('Search cursor was issued for a different query'),
+      { statusCode: 400 }
+    );
+  }
+  if (state.filters !== filters) {
+    throw Object.assign(
+      new Error('Search cursor was issued for different filters'),
+      { statusCode: 400 }
+    );
+  }
+  return state;
 }
@@ -0,0 +1,80 @@
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^#{1,6}\s/;
+
+// A boundary earlier than this share of the window wastes too much of it,
+// so a finer boundary is preferred instead
+const MIN_WINDOW_SHARE = 0.5;
+
+/**
+ * Offsets where a markdown document can be split cleanly, grouped by
+ * preference: before a heading or paragraph, then at any line break.
+ * Offsets inside fenced code blocks are never included.
+ */
+function findBoundaries(text: string): { blocks: number[]; lines: number[] } {
+  const blocks: number[] = [];
+  const lines: number[] = [];
+  let inFence = false;
+  let previousBlank = false;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    if (offset > 0 && !inFence) {
+      lines.push(offset);
+      if (previousBlank || HEADING.test(line)) {
+        blocks.push(offset);
+      }
+    }
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+    }
+    previousBlank = line.trim() === '';
+    offset += line.length + 1;
+  }
+
+  return { blocks, lines };
+}
+
+/**
+ * Read at most `maxLength` characters of markdown starting at `start`,
+ * ending on a heading or paragraph boundary where possible. Falls back to
+ * a line break outside code fences, then any line break or space, and only
+ * cuts mid-word when a single word fills the window.
+ * @param text - Full markdown document
+ * @param start - Offset to start reading from
+ * @param maxLength - Maximum characters to return
+ * @returns The chunk and the offset the next chunk starts at
+ */
+export function readChunk(
+  text: string,
+  start: number,
+  maxLength: number
+): { content: string; end: number } {
+  const from = Math.min(Math.max(start, 0), text.length);
+  // Every chunk but the last holds at least one character, so following
+  // nextOffset always reaches the end
+  const size = Math.max(1, Math.floor(maxLength));
+  const limit = from + size;
+  if (limit >= text.length) {
+    return { content: text.slice(from), end: text.length };
+  }
+
+  const minimum = from + size * MIN_WINDOW_SHARE;
+  const { blocks, lines } = findBoundaries(text);
+  const lastWithin = (offsets: number[], after: number) =>
+    offsets.filter((offset) => offset > after && offset <= limit).pop();
+
+  let end =
+    lastWithin(blocks, minimum) ??
+    lastWithin(lines, minimum) ??
+    lastWithin(blocks, from) ??
+    lastWithin(lines, from);
+  if (end === undefined) {
+    // The window lies inside one paragraph or code block
+    const newline = text.lastIndexOf('\n', limit - 1);
+    const space = text.lastIndexOf(' ', limit);
+    const cut = Math.max(newline, space);
+    end = cut > from ? cut + 1 : limit;
+  }
+
+  return { content: text.slice(from, end).trimEnd(), end };
+}
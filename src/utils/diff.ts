@@ -0,0 +1,89 @@
+import { createTwoFilesPatch, diffLines } from 'diff';
+
+export interface ChangedSection {
+  /** Nearest markdown heading above the change, if any */
+  heading?: string;
+  /** Lines added or removed, joined */
+  text: string;
+}
+
+export interface DocumentDiff {
+  /** Unified diff of the two versions, empty when they are equal */
+  diff: string;
+  added: ChangedSection[];
+  removed: ChangedSection[];
+}
+
+export interface DiffOptions {
+  /** Name shown in the diff's --- and +++ lines */
+  label: string;
+  /** Shown after the label of the previous version, e.g. its date */
+  previousHeader?: string;
+  /** Shown after the label of the current version */
+  currentHeader?: string;
+  /** Unchanged lines around each change (default: 3) */
+  contextLines?: number;
+}
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+
+function lastHeading(lines: string[], heading: string | undefined) {
+  for (const line of lines) {
+    const match = line.match(HEADING);
+    if (match) heading = match[1].trim();
+  }
+  return heading;
+}
+
+/**
+ * Compare two versions of a markdown document line by line
+ * @param previous - Earlier version
+ * @param current - Later version
+ * @returns A unified diff, and each run of added or removed lines with the
+ * heading of the section it falls in
+ */
+export function diffDocuments(
+  previous: string,
+  current: string,
+  options: DiffOptions
+): DocumentDiff {
+  const added: ChangedSection[] = [];
+  const removed: ChangedSection[] = [];
+  if (previous === current) return { diff: '', added, removed };
+
+  // With a newline after every line, a last line that gains a successor
+  // still compares equal and the diff has no "\ No newline" markers
+  const before = `${previous}\n`;
+  const after = `${current}\n`;
+
+  // Each version tracks its own headings, so a renamed heading is
+  // reported under its old name when removed and its new one when added
+  let previousHeading: string | undefined;
+  let currentHeading: string | undefined;
+  for (const part of diffLines(before, after)) {
+    const lines = part.value.replace(/\n$/, '').split('\n');
+    const text = lines.join('\n').trim();
+    if (part.added) {
+      if (text) added.push({ heading: currentHeading, text });
+      currentHeading = lastHeading(lines, currentHeading);
+    } else if (part.removed) {
+      if (text) removed.push({ heading: previousHeading, text });
+      previousHeading = lastHeading(lines, previousHeading);
+    } else {
+      previousHeading = lastHeading(lines, previousHeading);
+      currentHeading = lastHeading(lines, currentHeading);
+    }
+  }
+
+  const diff = createTwoFilesPatch(
+    options.label,
+    options.label,
+    before,
+    after,
+    options.previousHeader,
+    options.currentHeader,
+    { context: options.contextLines ?? 3 }
+  ).replace(/^Index: .*\n=+\n/, '');
+
+  return { diff, added, removed };
+}
@@ -0,0 +1,293 @@
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+
+import { queryJsonPath } from './jsonpath.js';
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+export const DOCUMENT_MIME_TYPES = {
+  html: 'text/html',
+  pdf: 'application/pdf',
+  json: 'application/json',
+  xml: 'application/xml',
+  text: 'text/plain',
+  markdown: 'text/markdown',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  odt: 'application/vnd.oasis.opendocument.text',
+} as const;
+
+export type DocumentKind = keyof typeof DOCUMENT_MIME_TYPES;
+
+/** Kinds whose raw bytes are needed, as they are not text */
+export const BINARY_DOCUMENT_KINDS: readonly DocumentKind[] = [
+  'pdf',
+  'docx',
+  'odt',
+];
+
+const EXTENSIONS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  json: 'json',
+  xml: 'xml',
+  rss: 'xml',
+  atom: 'xml',
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  docx: 'docx',
+  odt: 'odt',
+};
+
+/**
+ * Map a Content-Type header onto a document kind
+ * @returns undefined for missing or generic types such as
+ * application/octet-stream
+ */
+export function kindFromContentType(
+  contentType: string | undefined
+): DocumentKind | undefined {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (!type) return undefined;
+
+  const exact = (Object.keys(DOCUMENT_MIME_TYPES) as DocumentKind[]).find(
+    (kind) => DOCUMENT_MIME_TYPES[kind] === type
+  );
+  if (exact) return exact;
+
+  if (type === 'application/xhtml+xml') return 'html';
+  if (type === 'application/x-pdf') return 'pdf';
+  if (type === 'text/json' || type.endsWith('+json')) return 'json';
+  if (type === 'text/xml' || type.endsWith('+xml')) return 'xml';
+  if (type === 'text/x-markdown') return 'markdown';
+  return undefined;
+}
+
+/**
+ * Map a URL's file extension onto a document kind
+ */
+export function kindFromUrl(url: string): DocumentKind | undefined {
+  try {
+    const extension = new URL(url).pathname
+      .toLowerCase()
+      .match(/\.([a-z]+)$/)?.[1];
+    return extension ? EXTENSIONS[extension] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Work out what a response contains. File signatures win over the
+ * Content-Type header, which wins over the URL's extension; anything
+ * unrecognized is treated as HTML.
+ * @param url - URL the response was served from
+ * @param contentType - Content-Type header, if known
+ * @param head - Start of the body decoded as text
+ */
+export function detectDocumentKind(
+  url: string,
+  contentType?: string,
+  head = ''
+): DocumentKind {
+  if (head.trimStart().startsWith('%PDF-')) return 'pdf';
+
+  const declared = kindFromContentType(contentType);
+  const byUrl = kindFromUrl(url);
+  // DOCX and ODT are zip archives, indistinguishable by signature alone
+  if (head.startsWith('PK\u0003\u0004') && !declared) {
+    if (byUrl === 'docx' || byUrl === 'odt') return byUrl;
+  }
+  if (declared) return declared;
+  if (byUrl) return byUrl;
+
+  const start = head.trimStart();
+  if (start.startsWith('<?xml') && !/<html[\s>]/i.test(head)) return 'xml';
+  return 'html';
+}
+
+/**
+ * Find a text body's character encoding: the Content-Type charset, else a
+ * `<meta charset>` or `http-equiv` declaration near the start of the page
+ * @param head - Start of the body decoded as text
+ */
+export function detectCharset(
+  contentType: string | undefined,
+  head = ''
+): string | undefined {
+  const charset = (text: string | undefined) =>
+    text?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+  return (
+    charset(contentType) ?? charset(head.match(/<meta[^>]+charset[^>]*>/i)?.[0])
+  );
+}
+
+/**
+ * Decode a text body in its declared character encoding, falling back to
+ * UTF-8 when there is none or it is unknown
+ * @param contentType - Content-Type header, if known
+ */
+export function decodeText(data: Uint8Array, contentType?: string): string {
+  const head = new TextDecoder().decode(data.subarray(0, 1024));
+  const label = detectCharset(contentType, head);
+  if (label) {
+    try {
+      return new TextDecoder(label).decode(data);
+    } catch {
+      // Unknown label
+    }
+  }
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Pretty-print a JSON document, optionally keeping only the values a
+ * JSONPath expression selects
+ * @param text - Raw JSON
+ * @param jsonPath - Optional JSONPath filter
+ */
+export function formatJson(text: string, jsonPath?: string): string {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    // The same body would come back on a retry, so the error is fatal
+    throw Object.assign(
+      new Error(
+        `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+      ),
+      { statusCode: 422 }
+    );
+  }
+  return JSON.stringify(
+    jsonPath ? queryJsonPath(value, jsonPath) : value,
+    null,
+    2
+  );
+}
+
+/**
+ * Render an XML document as an indented tree of `name: text` lines,
+ * with attributes in parentheses
+ * @param text - Raw XML
+ */
+export function xmlToText(text: string): string {
+  const $ = cheerio.load(text, { xml: true });
+  const lines: string[] = [];
+
+  const render = ($element: Selection, depth: number) => {
+    // tagName is upper-cased; name keeps the document's own casing
+    const name = String($element.prop('name') ?? '');
+    const attributes = Object.entries($element.attr() ?? {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+    const ownText = $element
+      .contents()
+      .filter((_, node) => node.type === 'text' || node.type === 'cdata')
+      .text()
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const label = attributes ? `${name} (${attributes})` : name;
+    lines.push(`${'  '.repeat(depth)}${label}${ownText ? `: ${ownText}` : ''}`);
+    $element.children().each((_, child) => render($(child), depth + 1));
+  };
+
+  $.root()
+    .children()
+    .each((_, element) => render($(element), 0));
+  return lines.join('\n');
+}
+
+/**
+ * Convert a DOCX document to HTML
+ * @param data - Raw .docx bytes
+ */
+export async function docxToHtml(data: Uint8Array): Promise<string> {
+  const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+  return value;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert an OpenDocument text file to HTML from the headings,
+ * paragraphs, lists, tables and links of its content.xml
+ * @param data - Raw .odt bytes
+ */
+export async function odtToHtml(data: Uint8Array): Promise<string> {
+  const zip = await JSZip.loadAsync(data);
+  const content = await zip.file('content.xml')?.async('string');
+  if (!content) {
+    throw Object.assign(
+      new Error('Invalid OpenDocument file: content.xml is missing'),
+      { statusCode: 422 }
+    );
+  }
+
+  const $ = cheerio.load(content, { xml: true });
+  const convert = ($node: Selection): string => {
+    const type = $node.get(0)?.type;
+    if (type === 'text') return escapeHtml($node.text());
+    if (type !== 'tag') return '';
+
+    const inner = () =>
+      $node
+        .contents()
+        .toArray()
+        .map((child) => convert($(child)))
+        .join('');
+
+    switch ($node.prop('name')) {
+      case 'text:h': {
+        const level = Math.min(
+          Math.max(Number($node.attr('text:outline-level')) || 1, 1),
+          6
+        );
+        return `<h${level}>${inner()}</h${level}>`;
+      }
+      case 'text:p':
+        return `<p>${inner()}</p>`;
+      case 'text:list':
+        return `<ul>${inner()}</ul>`;
+      case 'text:list-item':
+        return `<li>${inner()}</li>`;
+      case 'text:a':
+        return `<a href="${escapeHtml($node.attr('xlink:href') ?? '')}">${inner()}</a>`;
+      case 'text:line-break':
+        return '<br>';
+      case 'text:tab':
+        return '\t';
+      case 'text:s':
+        return ' '.repeat(Number($node.attr('text:c')) || 1);
+      case 'table:table':
+        return `<table>${inner()}</table>`;
+      case 'table:table-row':
+        return `<tr>${inner()}</tr>`;
+      case 'table:table-cell': {
+        const span = Number($node.attr('table:number-columns-spanned'));
+        return span > 1
+          ? `<td colspan="${span}">${inner()}</td>`
+          : `<td>${inner()}</td>`;
+      }
+      case 'table:covered-table-cell':
+      case 'office:annotation':
+        return '';
+      default:
+        return inner();
+    }
+  };
+
+  const body = $('office\\:text').first();
+  return body
+    .contents()
+    .toArray()
+    .map((node) => convert($(node)))
+    .join('\n');
+}
@@ -0,0 +1,256 @@
+import * as cheerio from 'cheerio';
+
+import { htmlToText } from './formats.js';
+import { toIsoDate } from './metadata.js';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedItem {
+  title: string;
+  link?: string;
+  id?: string;
+  /** Publication date, ISO 8601 */
+  published?: string;
+  /** Last update date, ISO 8601 */
+  updated?: string;
+  /** Plain-text summary, shortened to SUMMARY_MAX_LENGTH */
+  summary?: string;
+}
+
+export interface Feed {
+  format: FeedFormat;
+  title: string;
+  /** Website the feed belongs to */
+  link?: string;
+  description?: string;
+  items: FeedItem[];
+}
+
+export interface DiscoveredFeed {
+  url: string;
+  title?: string;
+  type: string;
+}
+
+// Enough to tell what an entry is about without returning whole posts
+const SUMMARY_MAX_LENGTH = 500;
+
+// Media types announced by <link rel="alternate"> for each feed format.
+// Plain application/json is left out: it usually points at a REST API.
+const FEED_MEDIA_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+];
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+function summarize(html: string | undefined): string | undefined {
+  const text = html ? htmlToText(html).replace(/\s+/g, ' ').trim() : '';
+  if (!text) return undefined;
+  return text.length > SUMMARY_MAX_LENGTH
+    ? `${text.slice(0, SUMMARY_MAX_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+function resolveUrl(
+  href: string | undefined,
+  baseUrl: string
+): string | undefined {
+  const value = href?.trim();
+  if (!value) return undefined;
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function childText($parent: Selection, ...names: string[]): string | undefined {
+  for (const name of names) {
+    // Namespaced names such as dc:date need their colon escaped
+    const text = $parent
+      .children(name.replace(':', '\\:'))
+      .first()
+      .text()
+      .trim();
+    if (text) return text;
+  }
+  return undefined;
+}
+
+/**
+ * Atom links are empty elements; the entry's page is the alternate link,
+ * which is also the default relation
+ */
+function atomLink($: cheerio.CheerioAPI, $parent: Selection) {
+  const links = $parent
+    .children('link')
+    .toArray()
+    .map((link) => $(link));
+  const alternate =
+    links.find((link) => (link.attr('rel') ?? 'alternate') === 'alternate') ??
+    links[0];
+  return alternate?.attr('href');
+}
+
+function parseRss($: cheerio.CheerioAPI, baseUrl: string): Feed {
+  const $channel = $('channel').first();
+  const link = resolveUrl(childText($channel, 'link'), baseUrl);
+
+  // RSS 1.0 (RDF) puts items next to the channel instead of inside it
+  const items = $('item')
+    .toArray()
+    .map((element): FeedItem => {
+      const $item = $(element);
+      return {
+        title: summarize(childText($item, 'title')) ?? 'Untitled',
+        link: resolveUrl(childText($item, 'link'), link ?? baseUrl),
+        id: childText($item, 'guid'),
+        published: toIsoDate(childText($item, 'pubDate', 'dc:date')),
+        updated: toIsoDate(childText($item, 'atom:updated')),
+        summary: summarize(childText($item, 'description', 'content:encoded')),
+      };
+    });
+
+  return {
+    format: 'rss',
+    title: childText($channel, 'title') ?? '',
+    link,
+    description: summarize(childText($channel, 'description')),
+    items,
+  };
+}
+
+function parseAtom($: cheerio.CheerioAPI, baseUrl: string): Feed {
+  const $feed = $('feed').first();
+  const link = resolveUrl(atomLink($, $feed), baseUrl);
+
+  const items = $feed
+    .children('entry')
+    .toArray()
+    .map((element): FeedItem => {
+      const $entry = $(element);
+      return {
+        title: summarize(childText($entry, 'title')) ?? 'Untitled',
+        link: resolveUrl(atomLink($, $entry), link ?? baseUrl),
+        id: childText($entry, 'id'),
+        published: toIsoDate(childText($entry, 'published', 'issued')),
+        updated: toIsoDate(childText($entry, 'updated', 'modified')),
+        summary: summarize(childText($entry, 'summary', 'content')),
+      };
+    });
+
+  return {
+    format: 'atom',
+    title: childText($feed, 'title') ?? '',
+    link,
+    description: summarize(childText($feed, 'subtitle')),
+    items,
+  };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseJsonFeed(data: Record<string, unknown>, baseUrl: string): Feed {
+  const link = resolveUrl(optionalString(data.home_page_url), baseUrl);
+  const entries = Array.isArray(data.items) ? data.items : [];
+
+  const items = entries
+    .filter((entry): entry is Record<string, unknown> =>
+      Boolean(entry && typeof entry === 'object')
+    )
+    .map((entry): FeedItem => {
+      const summary =
+        optionalString(entry.summary) ??
+        optionalString(entry.content_text) ??
+        optionalString(entry.content_html);
+      return {
+        title: optionalString(entry.title) ?? 'Untitled',
+        link: resolveUrl(
+          optionalString(entry.url) ?? optionalString(entry.external_url),
+          link ?? baseUrl
+        ),
+        id: entry.id === undefined ? undefined : String(entry.id),
+        published: toIsoDate(optionalString(entry.date_published)),
+        updated: toIsoDate(optionalString(entry.date_modified)),
+        summary: summarize(summary),
+      };
+    });
+
+  return {
+    format: 'json',
+    title: optionalString(data.title) ?? '',
+    link,
+    description: summarize(optionalString(data.description)),
+    items,
+  };
+}
+
+/**
+ * Parse an RSS 2.0 (or RDF 1.0), Atom or JSON Feed document
+ * @param body - Raw feed document
+ * @param baseUrl - URL the feed was served from, for relative links
+ * @returns The feed, or undefined when the document is not a feed
+ */
+export function parseFeed(body: string, baseUrl: string): Feed | undefined {
+  const text = body.trimStart();
+
+  if (text.startsWith('{')) {
+    try {
+      const data = JSON.parse(text) as Record<string, unknown>;
+      return typeof data.version === 'string' &&
+        data.version.includes('jsonfeed.org')
+        ? parseJsonFeed(data, baseUrl)
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!text.startsWith('<')) return undefined;
+  const $ = cheerio.load(text, { xml: true });
+  const root = $.root().children().first().prop('name');
+  if (root === 'rss' || root === 'rdf:RDF') return parseRss($, baseUrl);
+  if (root === 'feed') return parseAtom($, baseUrl);
+  return undefined;
+}
+
+/**
+ * Find the feeds an HTML page advertises through
+ * `<link rel="alternate" type="application/rss+xml">` and similar tags
+ * @param html - Page HTML
+ * @param baseUrl - URL of the page, for resolving relative hrefs
+ */
+export function discoverFeeds(html: string, baseUrl: string): DiscoveredFeed[] {
+  const $ = cheerio.load(html);
+  const feeds: DiscoveredFeed[] = [];
+  $('link[rel~="alternate"][href]').each((_, element) => {
+    const $link = $(element);
+    const type = ($link.attr('type') ?? '').split(';')[0].trim().toLowerCase();
+    const url = resolveUrl($link.attr('href'), baseUrl);
+    if (!FEED_MEDIA_TYPES.includes(type) || !url) return;
+    if (feeds.some((feed) => feed.url === url)) return;
+    feeds.push({ url, title: $link.attr('title')?.trim() || undefined, type });
+  });
+  return feeds;
+}
+
+/**
+ * Keep the items published or updated on or after a date. Items without
+ * any date cannot be placed and are left out.
+ * @param items - Feed items
+ * @param since - Earliest date to keep, ISO 8601
+ */
+export function filterItemsSince(items: FeedItem[], since: string): FeedItem[] {
+  const threshold = Date.parse(since);
+  return items.filter((item) => {
+    const dates = [item.published, item.updated]
+      .filter((date): date is string => Boolean(date))
+      .map((date) => Date.parse(date));
+    return dates.some((date) => date >= threshold);
+  });
+}
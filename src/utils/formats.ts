@@ -0,0 +1,146 @@
+import * as cheerio from 'cheerio';
+
+export const OUTPUT_FORMATS = ['markdown', 'text', 'html', 'outline'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  /** Character offset of the heading in the markdown, usable as startIndex */
+  offset: number;
+  children: OutlineHeading[];
+}
+
+const BLOCK_ELEMENTS =
+  'address, article, aside, blockquote, dd, div, dl, dt, figcaption, figure, footer, h1, h2, h3, h4, h5, h6, header, hr, li, main, nav, ol, p, pre, section, table, tr, ul';
+
+// Markup that has no meaning outside a browser
+const NON_CONTENT_ELEMENTS =
+  'script, style, noscript, template, link, meta, iframe, object, embed';
+
+// Attributes that carry meaning for parsers; everything else is presentation
+const KEPT_ATTRIBUTES = new Set([
+  'href',
+  'src',
+  'alt',
+  'title',
+  'colspan',
+  'rowspan',
+  'headers',
+  'scope',
+  'lang',
+  'datetime',
+  'cite',
+]);
+
+/**
+ * Flatten content HTML to plain text, keeping paragraphs on their own
+ * lines and dropping all formatting
+ * @param html - Content HTML
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html, null, false);
+  $(NON_CONTENT_ELEMENTS).remove();
+  $('br').replaceWith('\n');
+  $('td, th').after(' ');
+  $(BLOCK_ELEMENTS).before('\n\n').after('\n\n');
+
+  return $.root()
+    .text()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Strip scripts, styles, comments and presentational attributes from
+ * content HTML, resolving links and image sources against the page URL
+ * @param html - Content HTML
+ * @param baseUrl - URL of the page
+ */
+export function cleanHtml(html: string, baseUrl: string): string {
+  const $ = cheerio.load(html, null, false);
+  $(NON_CONTENT_ELEMENTS).remove();
+  $('*')
+    .contents()
+    .filter((_, node) => node.type === 'comment')
+    .remove();
+  $.root()
+    .contents()
+    .filter((_, node) => node.type === 'comment')
+    .remove();
+
+  $('*').each((_, el) => {
+    const $el = $(el);
+    for (const name of Object.keys($el.attr() ?? {})) {
+      if (!KEPT_ATTRIBUTES.has(name)) {
+        $el.removeAttr(name);
+        continue;
+      }
+      if (name === 'href' || name === 'src') {
+        try {
+          $el.attr(name, new URL($el.attr(name)!, baseUrl).toString());
+        } catch {
+          $el.removeAttr(name);
+        }
+      }
+    }
+  });
+
+  return ($.html() ?? '').replace(/\n\s*\n+/g, '\n').trim();
+}
+
+/**
+ * Build the h1–h6 tree of a markdown document. Headings inside fenced
+ * code blocks are ignored.
+ * @param markdown - ATX-style markdown
+ */
+export function buildOutline(markdown: string): OutlineHeading[] {
+  const root: OutlineHeading[] = [];
+  const stack: OutlineHeading[] = [];
+  let inFence = false;
+  let offset = 0;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const match = inFence ? null : line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match && match[2]) {
+      const heading: OutlineHeading = {
+        level: match[1].length,
+        text: match[2],
+        offset,
+        children: [],
+      };
+      while (stack.length && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      (stack.length ? stack[stack.length - 1].children : root).push(heading);
+      stack.push(heading);
+    }
+    offset += line.length + 1;
+  }
+
+  return root;
+}
+
+/**
+ * Render an outline as an indented list, one heading per line
+ * @param outline - Headings returned by buildOutline
+ */
+export function renderOutline(outline: OutlineHeading[], depth = 0): string {
+  return outline
+    .map((heading) =>
+      [
+        `${'  '.repeat(depth)}- ${heading.text} (offset ${heading.offset})`,
+        renderOutline(heading.children, depth + 1),
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n');
+}
@@ -0,0 +1,123 @@
+type Segment =
+  | { kind: 'child'; name: string; recursive: boolean }
+  | { kind: 'index'; index: number; recursive: boolean }
+  | { kind: 'slice'; start?: number; end?: number; recursive: boolean }
+  | { kind: 'wildcard'; recursive: boolean };
+
+function invalid(path: string, reason: string): Error {
+  return Object.assign(new Error(`Invalid JSONPath "${path}": ${reason}`), {
+    statusCode: 400,
+  });
+}
+
+/**
+ * Split a JSONPath expression into segments. Supported syntax: `$`,
+ * `.name`, `['name']`, `[n]` (negative from the end), `[start:end]`,
+ * `*`/`[*]` and recursive descent with `..`.
+ */
+function parsePath(path: string): Segment[] {
+  const segments: Segment[] = [];
+  let i = path.startsWith('$') ? 1 : 0;
+
+  while (i < path.length) {
+    let recursive = false;
+    if (path.startsWith('..', i)) {
+      recursive = true;
+      i += 2;
+    } else if (path[i] === '.') {
+      i += 1;
+    } else if (path[i] !== '[') {
+      // A leading member name without `$.`
+      if (i !== 0) throw invalid(path, `unexpected "${path[i]}"`);
+    }
+
+    if (path[i] === '[') {
+      const close = path.indexOf(']', i);
+      if (close === -1) throw invalid(path, 'unclosed bracket');
+      const inner = path.slice(i + 1, close).trim();
+      i = close + 1;
+
+      const quoted = inner.match(/^(['"])(.*)\1$/);
+      if (quoted) {
+        segments.push({ kind: 'child', name: quoted[2], recursive });
+      } else if (inner === '*') {
+        segments.push({ kind: 'wildcard', recursive });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: 'index', index: Number(inner), recursive });
+      } else if (/^-?\d*:-?\d*$/.test(inner)) {
+        const [start, end] = inner.split(':');
+        segments.push({
+          kind: 'slice',
+          start: start ? Number(start) : undefined,
+          end: end ? Number(end) : undefined,
+          recursive,
+        });
+      } else {
+        throw invalid(path, `unsupported selector [${inner}]`);
+      }
+      continue;
+    }
+
+    const name = path.slice(i).match(/^[^.[]+/)?.[0];
+    if (!name) throw invalid(path, 'missing member name');
+    i += name.length;
+    segments.push(
+      name === '*'
+        ? { kind: 'wildcard', recursive }
+        : { kind: 'child', name, recursive }
+    );
+  }
+
+  return segments;
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+function descendants(value: unknown): unknown[] {
+  const all: unknown[] = [value];
+  for (const child of children(value)) all.push(...descendants(child));
+  return all;
+}
+
+function select(value: unknown, segment: Segment): unknown[] {
+  switch (segment.kind) {
+    case 'wildcard':
+      return children(value);
+    case 'child':
+      return value &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        Object.hasOwn(value, segment.name)
+        ? [(value as Record<string, unknown>)[segment.name]]
+        : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index =
+        segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'slice':
+      return Array.isArray(value)
+        ? value.slice(segment.start, segment.end)
+        : [];
+  }
+}
+
+/**
+ * Evaluate a JSONPath expression
+ * @param value - Parsed JSON document
+ * @param path - Expression such as `$.items[*].name` or `$..id`
+ * @returns Every matched value, in document order
+ */
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+  let nodes = [value];
+  for (const segment of parsePath(path.trim())) {
+    const sources = segment.recursive ? nodes.flatMap(descendants) : nodes;
+    nodes = sources.flatMap((node) => select(node, segment));
+  }
+  return nodes;
+}
@@ -0,0 +1,182 @@
+import * as cheerio from 'cheerio';
+
+import { normalizeUrl } from './url.js';
+
+export interface PageLink {
+  /** Absolute URL, fragment removed */
+  url: string;
+  /** Anchor text, or the aria-label, title or image alt of an empty anchor */
+  text: string;
+  /** Value of the rel attribute, e.g. nofollow or next */
+  rel?: string;
+  /** Whether the link stays on the page's site (`www.` ignored) */
+  internal: boolean;
+}
+
+export interface PageImage {
+  /** Absolute URL of the image, taken from lazy-load attributes when set */
+  src: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+  /** Candidate sources with absolute URLs, from the image or its <picture> */
+  srcset?: string;
+}
+
+// Lazy-loading scripts keep the real source in one of these until the
+// image scrolls into view
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+function siteOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function resolveHttpUrl(value: string | undefined, baseUrl: string) {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  try {
+    const url = new URL(trimmed, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function cleanText(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function firstAttribute(
+  $element: Selection,
+  names: string[]
+): string | undefined {
+  for (const name of names) {
+    const value = $element.attr(name)?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function dimension(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Resolve every candidate URL of a srcset, keeping the descriptors
+ */
+function resolveSrcset(
+  srcset: string | undefined,
+  baseUrl: string
+): string | undefined {
+  const candidates = (srcset ?? '')
+    .split(/,\s+/)
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      const resolved = resolveHttpUrl(url, baseUrl);
+      return resolved ? [resolved.toString(), ...descriptors].join(' ') : '';
+    })
+    .filter(Boolean);
+  return candidates.length ? candidates.join(', ') : undefined;
+}
+
+/**
+ * Collect the links of a page, one per target URL. Fragments, mailto:,
+ * tel: and javascript: links are left out; a later anchor only fills in
+ * the text of an earlier one that had none.
+ * @param $ - Loaded page
+ * @param baseUrl - URL of the page, for relative hrefs and `internal`
+ * @param internalOnly - Keep only links that stay on the page's site
+ */
+export function extractLinks(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  internalOnly = false
+): PageLink[] {
+  const site = siteOf(baseUrl);
+  const links = new Map<string, PageLink>();
+
+  $('a[href]').each((_, element) => {
+    const $link = $(element);
+    const href = $link.attr('href')?.trim();
+    // Same-page anchors only move the reader within the page
+    if (!href || href.startsWith('#')) return;
+    const url = resolveHttpUrl(href, baseUrl);
+    if (!url) return;
+    url.hash = '';
+
+    const internal = siteOf(url.toString()) === site;
+    if (internalOnly && !internal) return;
+
+    const text =
+      cleanText($link.text()) ||
+      cleanText($link.attr('aria-label')) ||
+      cleanText($link.attr('title')) ||
+      cleanText($link.find('img[alt]').first().attr('alt'));
+    const key = normalizeUrl(url.toString());
+    const existing = links.get(key);
+    if (existing) {
+      if (!existing.text) existing.text = text;
+      return;
+    }
+    links.set(key, {
+      url: url.toString(),
+      text,
+      rel: cleanText($link.attr('rel')).toLowerCase() || undefined,
+      internal,
+    });
+  });
+
+  return [...links.values()];
+}
+
+/**
+ * Collect the images of a page, one per source. Lazy-load attributes
+ * (`data-src`, `data-srcset`, ...) win over placeholder sources, and an
+ * image inside `<picture>` takes its srcset from the first `<source>`
+ * when it has none itself. Inline data: images are left out.
+ * @param $ - Loaded page
+ * @param baseUrl - URL of the page, for relative sources
+ */
+export function extractImages(
+  $: cheerio.CheerioAPI,
+  baseUrl: string
+): PageImage[] {
+  const images = new Map<string, PageImage>();
+
+  $('img').each((_, element) => {
+    const $img = $(element);
+    const $source = $img.closest('picture').children('source').first();
+
+    const srcset = resolveSrcset(
+      firstAttribute($img, [...LAZY_SRCSET_ATTRIBUTES, 'srcset']) ??
+        firstAttribute($source, [...LAZY_SRCSET_ATTRIBUTES, 'srcset']),
+      baseUrl
+    );
+    const src =
+      resolveHttpUrl(
+        firstAttribute($img, [...LAZY_SRC_ATTRIBUTES, 'src']),
+        baseUrl
+      )?.toString() ?? srcset?.split(/,\s+/)[0].split(/\s+/)[0];
+    if (!src || images.has(src)) return;
+
+    images.set(src, {
+      src,
+      alt: cleanText($img.attr('alt')) || undefined,
+      width: dimension($img.attr('width')),
+      height: dimension($img.attr('height')),
+      srcset,
+    });
+  });
+
+  return [...images.values()];
+}
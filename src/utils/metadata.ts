@@ -0,0 +1,286 @@
+import * as cheerio from 'cheerio';
+
+export interface MicrodataItem {
+  type?: string;
+  properties: Record<string, (string | MicrodataItem)[]>;
+}
+
+export interface PageMetadata {
+  description?: string;
+  keywords?: string;
+  author?: string;
+  /** Publication date, ISO 8601 */
+  publishDate?: string;
+  /** Last modification date, ISO 8601 */
+  modifiedDate?: string;
+  /** Absolute URL from link[rel=canonical], for de-duplicating copies */
+  canonicalUrl?: string;
+  /** Document language from html[lang] */
+  language?: string;
+  siteName?: string;
+  /** Number of pages, for PDFs */
+  pageCount?: number;
+  /** og:* properties without the prefix; repeated properties become arrays */
+  openGraph?: Record<string, string | string[]>;
+  /** twitter:* card fields without the prefix */
+  twitter?: Record<string, string | string[]>;
+  /** Parsed application/ld+json blocks */
+  jsonLd?: unknown[];
+  /** Top-level microdata items */
+  microdata?: MicrodataItem[];
+}
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+/**
+ * Normalize a date string to ISO 8601. Date-only values stay date-only
+ * rather than gaining a made-up time of day.
+ * @returns undefined when the value cannot be parsed
+ */
+export function toIsoDate(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function metaContent(
+  $: cheerio.CheerioAPI,
+  ...selectors: string[]
+): string | undefined {
+  for (const selector of selectors) {
+    const content = $(selector).attr('content')?.trim();
+    if (content) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Collect meta tags sharing a prefix, e.g. `og:` or `twitter:`.
+ * Sites use both `property` and `name` for either family.
+ */
+function prefixedMeta(
+  $: cheerio.CheerioAPI,
+  prefix: string
+): Record<string, string | string[]> | undefined {
+  const fields: Record<string, string | string[]> = {};
+  $('meta[property], meta[name]').each((_, el) => {
+    const $meta = $(el);
+    const key = ($meta.attr('property') ?? $meta.attr('name') ?? '').trim();
+    const content = $meta.attr('content')?.trim();
+    if (!key.toLowerCase().startsWith(prefix) || !content) return;
+
+    const field = key.slice(prefix.length);
+    const existing = fields[field];
+    if (existing === undefined) {
+      fields[field] = content;
+    } else if (Array.isArray(existing)) {
+      existing.push(content);
+    } else if (existing !== content) {
+      fields[field] = [existing, content];
+    }
+  });
+  return Object.keys(fields).length ? fields : undefined;
+}
+
+function parseJsonLd($: cheerio.CheerioAPI): unknown[] {
+  const blocks: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    // Some CMSs wrap the JSON in CDATA or HTML comments
+    const text = $(el)
+      .text()
+      .trim()
+      .replace(/^(<!--|\/\/\s*<!\[CDATA\[)|(-->|\/\/\s*\]\]>)$/g, '')
+      .trim();
+    try {
+      const parsed = JSON.parse(text);
+      blocks.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    } catch {
+      // Malformed blocks are common and carry nothing usable
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Depth-first walk over JSON-LD nodes, including `@graph` members
+ */
+function* jsonLdNodes(value: unknown): Generator<Record<string, unknown>> {
+  if (Array.isArray(value)) {
+    for (const item of value) yield* jsonLdNodes(item);
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    yield node;
+    if (node['@graph']) yield* jsonLdNodes(node['@graph']);
+  }
+}
+
+function jsonLdString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    const names = value.map(jsonLdString).filter(Boolean);
+    return names.length ? names.join(', ') : undefined;
+  }
+  if (value && typeof value === 'object') {
+    return jsonLdString((value as Record<string, unknown>).name);
+  }
+  return undefined;
+}
+
+function jsonLdField(blocks: unknown[], field: string): string | undefined {
+  for (const node of jsonLdNodes(blocks)) {
+    const value = jsonLdString(node[field]);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function microdataValue(
+  $: cheerio.CheerioAPI,
+  $prop: Selection,
+  baseUrl: string
+): string | MicrodataItem {
+  if ($prop.is('[itemscope]')) return parseMicrodataItem($, $prop, baseUrl);
+
+  // Value attributes per the HTML microdata spec; URL values are resolved
+  const urlAttribute = $prop.is('a, area, link')
+    ? 'href'
+    : $prop.is('img, audio, video, source, iframe, embed, track')
+      ? 'src'
+      : $prop.is('object')
+        ? 'data'
+        : undefined;
+  const url = urlAttribute && $prop.attr(urlAttribute);
+  if (url) {
+    try {
+      return new URL(url, baseUrl).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  let value: string | undefined;
+  if ($prop.is('meta')) value = $prop.attr('content');
+  else if ($prop.is('time')) value = $prop.attr('datetime');
+  else if ($prop.is('data, meter')) value = $prop.attr('value');
+  return (value ?? $prop.text()).replace(/\s+/g, ' ').trim();
+}
+
+function parseMicrodataItem(
+  $: cheerio.CheerioAPI,
+  $item: Selection,
+  baseUrl: string
+): MicrodataItem {
+  const item: MicrodataItem = {
+    type: $item.attr('itemtype')?.trim() || undefined,
+    properties: {},
+  };
+
+  // Properties belong to the nearest enclosing item only
+  $item.find('[itemprop]').each((_, el) => {
+    const $prop = $(el);
+    if (!$prop.parent().closest('[itemscope]').is($item)) return;
+
+    const value = microdataValue($, $prop, baseUrl);
+    for (const name of ($prop.attr('itemprop') ?? '').split(/\s+/)) {
+      if (!name) continue;
+      (item.properties[name] ??= []).push(value);
+    }
+  });
+  return item;
+}
+
+function microdataString(
+  items: MicrodataItem[],
+  property: string
+): string | undefined {
+  for (const item of items) {
+    const [value] = item.properties[property] ?? [];
+    if (typeof value === 'string' && value) return value;
+    if (value && typeof value === 'object') {
+      const [name] = value.properties.name ?? [];
+      if (typeof name === 'string' && name) return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gather a page's descriptive metadata from meta tags, OpenGraph, Twitter
+ * cards, JSON-LD and microdata. Common fields (author, dates, ...) are
+ * taken from the first source that provides them, in that order.
+ * @param $ - Loaded page
+ * @param baseUrl - URL of the page, for resolving relative URLs
+ */
+export function extractMetadata(
+  $: cheerio.CheerioAPI,
+  baseUrl: string
+): PageMetadata {
+  const openGraph = prefixedMeta($, 'og:');
+  const twitter = prefixedMeta($, 'twitter:');
+  const jsonLd = parseJsonLd($);
+  const microdata = $('[itemscope]')
+    .filter((_, el) => !$(el).is('[itemprop]'))
+    .toArray()
+    .map((el) => parseMicrodataItem($, $(el), baseUrl));
+
+  const first = (value: string | string[] | undefined) =>
+    Array.isArray(value) ? value[0] : value;
+
+  let canonicalUrl = $('link[rel~="canonical"]').attr('href')?.trim();
+  if (canonicalUrl) {
+    try {
+      canonicalUrl = new URL(canonicalUrl, baseUrl).toString();
+    } catch {
+      canonicalUrl = undefined;
+    }
+  }
+
+  return {
+    description:
+      metaContent($, 'meta[name="description"]') ??
+      first(openGraph?.description) ??
+      first(twitter?.description),
+    keywords: metaContent($, 'meta[name="keywords"]'),
+    author:
+      metaContent(
+        $,
+        'meta[name="author"]',
+        'meta[property="article:author"]'
+      ) ??
+      jsonLdField(jsonLd, 'author') ??
+      microdataString(microdata, 'author'),
+    publishDate: toIsoDate(
+      metaContent(
+        $,
+        'meta[property="article:published_time"]',
+        'meta[name="publishdate"]',
+        'meta[name="pubdate"]',
+        'meta[name="date"]',
+        'meta[itemprop="datePublished"]'
+      ) ??
+        jsonLdField(jsonLd, 'datePublished') ??
+        microdataString(microdata, 'datePublished') ??
+        $('time[pubdate]').attr('datetime')
+    ),
+    modifiedDate: toIsoDate(
+      metaContent(
+        $,
+        'meta[property="article:modified_time"]',
+        'meta[property="og:updated_time"]',
+        'meta[name="last-modified"]',
+        'meta[itemprop="dateModified"]'
+      ) ??
+        jsonLdField(jsonLd, 'dateModified') ??
+        microdataString(microdata, 'dateModified')
+    ),
+    canonicalUrl: canonicalUrl || undefined,
+    language: $('html').attr('lang')?.trim() || undefined,
+    siteName: first(openGraph?.site_name),
+    openGraph,
+    twitter,
+    jsonLd: jsonLd.length ? jsonLd : undefined,
+    microdata: microdata.length ? microdata : undefined,
+  };
+}
@@ -0,0 +1,59 @@
+import type { RenderPath } from './render.js';
+
+/**
+ * A page as fetched from the network, before any extraction
+ */
+export interface CachedPage {
+  /** URL the content was served from */
+  url: string;
+  content: string;
+  statusCode?: number;
+  /** Detected MIME type, one of DOCUMENT_MIME_TYPES */
+  contentType?: string;
+  /** Raw body of binary documents such as PDFs */
+  data?: Uint8Array;
+  /** Whether a plain HTTP fetch or the headless browser served the page */
+  renderedWith?: RenderPath;
+}
+
+// Long enough to page through a document, short enough to pick up edits
+const PAGE_CACHE_TTL = 10 * 60 * 1000;
+const PAGE_CACHE_MAX_ENTRIES = 50;
+
+const entries = new Map<string, { page: CachedPage; expires: number }>();
+
+/**
+ * Look up a recently fetched page
+ * @param key - Requested URL
+ * @returns The page, or undefined when it was never fetched or has expired
+ */
+export function getCachedPage(key: string): CachedPage | undefined {
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+  if (entry.expires <= Date.now()) {
+    entries.delete(key);
+    return undefined;
+  }
+  // Re-insert so the Map's iteration order tracks recency
+  entries.delete(key);
+  entries.set(key, entry);
+  return entry.page;
+}
+
+/**
+ * Remember a fetched page so follow-up reads skip the network,
+ * evicting the least recently used page when the cache is full
+ * @param key - Requested URL
+ * @param page - Fetched page
+ */
+export function cachePage(key: string, page: CachedPage): void {
+  entries.delete(key);
+  entries.set(key, { page, expires: Date.now() + PAGE_CACHE_TTL });
+  while (entries.size > PAGE_CACHE_MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+export function clearPageCache(): void {
+  entries.clear();
+}
@@ -0,0 +1,69 @@
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+
+export interface PdfDocument {
+  title?: string;
+  author?: string;
+  /** Creation date, ISO 8601 */
+  createdDate?: string;
+  /** Modification date, ISO 8601 */
+  modifiedDate?: string;
+  pageCount: number;
+  /** Text of every page, each introduced by a `## Page N` heading */
+  text: string;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function optionalDate(value: unknown): string | undefined {
+  return value instanceof Date && !Number.isNaN(value.getTime())
+    ? value.toISOString()
+    : undefined;
+}
+
+/**
+ * Extract the text of a PDF page by page, with its document metadata.
+ * Page headings keep page numbers visible in the content and in the
+ * heading outline.
+ * @param data - Raw PDF bytes
+ * @throws with statusCode 422 for corrupt or encrypted PDFs
+ */
+export async function extractPdf(data: Uint8Array): Promise<PdfDocument> {
+  try {
+    return await readPdf(data);
+  } catch (error) {
+    // The same bytes would come back on a retry, so the error is fatal
+    throw Object.assign(
+      new Error(
+        `Invalid PDF: ${error instanceof Error ? error.message : String(error)}`
+      ),
+      { statusCode: 422, cause: error }
+    );
+  }
+}
+
+async function readPdf(data: Uint8Array): Promise<PdfDocument> {
+  // pdf.js takes ownership of the buffer it is given
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const { info } = await getMeta(pdf, { parseDates: true });
+
+    const pages = text.map(
+      (pageText, index) =>
+        `## Page ${index + 1}\n\n${pageText.replace(/\n{3,}/g, '\n\n').trim()}`
+    );
+
+    return {
+      title: optionalText(info.Title),
+      author: optionalText(info.Author),
+      createdDate: optionalDate(info.CreationDate),
+      modifiedDate: optionalDate(info.ModDate),
+      pageCount: totalPages,
+      text: pages.join('\n\n'),
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
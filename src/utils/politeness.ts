@@ -0,0 +1,171 @@
+import pLimit from 'p-limit';
+
+import { getRobotsRules, isAllowedByRobots } from './robots.js';
+
+/**
+ * How fetch tools treat the sites they visit, set per deployment through
+ * environment variables
+ */
+export interface PolitenessConfig {
+  /** Honor robots.txt Disallow rules and Crawl-delay */
+  respectRobotsTxt: boolean;
+  /** Product token matched against robots.txt User-agent lines */
+  userAgent: string;
+  /** Maximum parallel requests to one host; 0 for no cap */
+  hostConcurrency: number;
+  /** Minimum milliseconds between requests to one host */
+  hostDelay: number;
+}
+
+export const DEFAULT_ROBOTS_USER_AGENT = 'mcp-web-tools';
+
+// A Crawl-delay beyond this would stall a tool call rather than pace it
+const MAX_CRAWL_DELAY = 60000;
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+}
+
+/**
+ * Read the politeness settings from the environment:
+ * `MCP_RESPECT_ROBOTS_TXT` (default true), `MCP_ROBOTS_USER_AGENT`,
+ * `MCP_HOST_CONCURRENCY` (default 2) and `MCP_HOST_DELAY_MS` (default 250)
+ */
+export function loadPolitenessConfig(
+  env: Record<string, string | undefined> = process.env
+): PolitenessConfig {
+  return {
+    respectRobotsTxt: !/^(false|0|no|off)$/i.test(
+      env.MCP_RESPECT_ROBOTS_TXT?.trim() ?? ''
+    ),
+    userAgent: env.MCP_ROBOTS_USER_AGENT?.trim() || DEFAULT_ROBOTS_USER_AGENT,
+    hostConcurrency: envNumber(env.MCP_HOST_CONCURRENCY, 2),
+    hostDelay: envNumber(env.MCP_HOST_DELAY_MS, 250),
+  };
+}
+
+/**
+ * Error for a URL that robots.txt disallows; not retried, and reported as
+ * `blockedByRobots` on the result
+ */
+export function blockedByRobotsError(url: string, userAgent: string): Error {
+  return Object.assign(
+    new Error(`Blocked by robots.txt: ${url} is disallowed for ${userAgent}`),
+    { statusCode: 403, blockedByRobots: true }
+  );
+}
+
+export function isBlockedByRobots(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { blockedByRobots?: unknown }).blockedByRobots === true
+  );
+}
+
+interface HostState {
+  limit: ReturnType<typeof pLimit>;
+  /** Earliest time the next request may start */
+  nextStart: number;
+}
+
+// Hosts with requests queued, running or still within their delay
+const hosts = new Map<string, HostState>();
+
+function hostKey(host: string, concurrency: number): string {
+  return `${host} ${concurrency}`;
+}
+
+function hostState(key: string, concurrency: number): HostState {
+  let state = hosts.get(key);
+  if (!state) {
+    state = {
+      limit: pLimit(concurrency > 0 ? concurrency : Infinity),
+      nextStart: 0,
+    };
+    hosts.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Forget a host once nothing is queued for it and its delay has passed, so
+ * the map only holds hosts that are being paced
+ */
+function releaseHost(key: string, state: HostState): void {
+  if (hosts.get(key) !== state) return;
+  if (state.limit.activeCount > 0 || state.limit.pendingCount > 0) return;
+
+  const wait = state.nextStart - Date.now();
+  if (wait > 0) {
+    setTimeout(() => releaseHost(key, state), wait).unref();
+  } else {
+    hosts.delete(key);
+  }
+}
+
+/** Number of hosts currently paced */
+export function pacedHostCount(): number {
+  return hosts.size;
+}
+
+/**
+ * Check robots.txt for a URL, throwing when it is disallowed
+ * @returns Milliseconds to leave between requests to the host
+ */
+export async function checkRobots(
+  url: string,
+  config: PolitenessConfig
+): Promise<number> {
+  if (!config.respectRobotsTxt) return config.hostDelay;
+
+  const rules = await getRobotsRules(url, config.userAgent);
+  if (!isAllowedByRobots(rules, url)) {
+    throw blockedByRobotsError(url, config.userAgent);
+  }
+  return Math.max(
+    config.hostDelay,
+    Math.min((rules.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY)
+  );
+}
+
+/**
+ * Run a request to a URL politely: after checking robots.txt, within the
+ * host's concurrency cap and no sooner than its minimum delay after the
+ * previous request to the same host
+ * @param url - URL about to be requested
+ * @param config - Politeness settings
+ * @param request - Performs the request
+ */
+export async function politeRequest<T>(
+  url: string,
+  config: PolitenessConfig,
+  request: () => Promise<T>
+): Promise<T> {
+  const delay = await checkRobots(url, config);
+
+  let host: string;
+  try {
+    host = new URL(url).host.toLowerCase();
+  } catch {
+    return await request();
+  }
+
+  const key = hostKey(host, config.hostConcurrency);
+  const state = hostState(key, config.hostConcurrency);
+  try {
+    return await state.limit(async () => {
+      const wait = state.nextStart - Date.now();
+      state.nextStart = Math.max(state.nextStart, Date.now()) + delay;
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      return await request();
+    });
+  } finally {
+    releaseHost(key, state);
+  }
+}
@@ -0,0 +1,208 @@
+import * as cheerio from 'cheerio';
+
+export const EXTRACTION_MODES = ['auto', 'readability', 'full'] as const;
+
+export type ExtractionMode = (typeof EXTRACTION_MODES)[number];
+
+// Containers sites commonly use for the primary content, in priority order
+const MAIN_SELECTORS = [
+  'main',
+  'article',
+  '[role="main"]',
+  '.main-content',
+  '.content',
+  '.post-content',
+  '.entry-content',
+];
+
+// A selector match holding less of the page's text than this is most likely
+// a sidebar or widget that happens to share a class name
+const MIN_MAIN_TEXT_SHARE = 0.25;
+
+// Markup that never carries article content
+const BOILERPLATE_TAGS =
+  'script, style, noscript, template, iframe, svg, canvas, nav, aside, footer, form, button, dialog';
+
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|nav|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|tool|widget/i;
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS =
+  /article|blog|body|content|entry|hentry|h-entry|main|page|post|prose|story|text/i;
+const NEGATIVE_CLASS =
+  /hidden|banner|byline|combx|comment|contact|footer|foot|masthead|media|meta|modal|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|social|tags|tool|widget/i;
+
+// Paragraph-like blocks shorter than this are ignored when scoring
+const MIN_PARAGRAPH_LENGTH = 25;
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+function textOf($node: Selection): string {
+  return $node.text().replace(/\s+/g, ' ').trim();
+}
+
+function classWeight($node: Selection): number {
+  const names = `${$node.attr('class') ?? ''} ${$node.attr('id') ?? ''}`;
+  let weight = 0;
+  if (NEGATIVE_CLASS.test(names)) weight -= 25;
+  if (POSITIVE_CLASS.test(names)) weight += 25;
+  return weight;
+}
+
+function tagWeight($node: Selection): number {
+  if ($node.is('div, article, main, section')) return 5;
+  if ($node.is('pre, td, blockquote')) return 3;
+  if ($node.is('ol, ul, dl, dd, dt, li')) return -3;
+  if ($node.is('h1, h2, h3, h4, h5, h6, th')) return -5;
+  return 0;
+}
+
+/**
+ * Share of an element's text that sits inside links, from 0 to 1
+ */
+function linkDensity($node: Selection): number {
+  const length = textOf($node).length;
+  if (!length) return 0;
+  const linked = textOf($node.find('a')).length;
+  return Math.min(linked / length, 1);
+}
+
+/**
+ * Remove boilerplate markup and elements whose class or id marks them as
+ * page chrome (cookie banners, share bars, comment sections, ...)
+ */
+function stripBoilerplate($: cheerio.CheerioAPI): void {
+  $(BOILERPLATE_TAGS).remove();
+  // Keep headers inside the content, they hold the article title
+  $('header')
+    .filter((_, el) => !$(el).closest('article, main').length)
+    .remove();
+  $('[hidden], [aria-hidden="true"], [role="navigation"], [role="banner"]')
+    .not('html, body')
+    .remove();
+
+  $('body *').each((_, el) => {
+    const $node = $(el);
+    if ($node.is('main, article, a, table, tbody, tr, td, th')) return;
+    const names = `${$node.attr('class') ?? ''} ${$node.attr('id') ?? ''}`;
+    if (
+      UNLIKELY_CANDIDATES.test(names) &&
+      !MAYBE_CANDIDATES.test(names) &&
+      !$node.closest('article, main').length
+    ) {
+      $node.remove();
+    }
+  });
+}
+
+/**
+ * Pick the element most likely to hold the article body, Readability
+ * style: every paragraph credits its parent (and half to its grandparent)
+ * with points for its length and comma count, so containers with many
+ * substantial paragraphs rise to the top. Each total is then discounted
+ * by the container's link density, which sinks menus and link lists.
+ * @param html - Full page HTML
+ * @returns HTML of the best candidate, or of the cleaned body when no
+ * paragraph is long enough to score
+ */
+export function extractReadableContent(html: string): string {
+  const $ = cheerio.load(html);
+  stripBoilerplate($);
+
+  const candidates: Selection[] = [];
+  const addScore = ($node: Selection, points: number) => {
+    if (!$node.length || $node.is('html')) return;
+    let score = $node.data('readabilityScore') as number | undefined;
+    if (score === undefined) {
+      score = tagWeight($node) + classWeight($node);
+      candidates.push($node);
+    }
+    $node.data('readabilityScore', score + points);
+  };
+
+  $('p, pre, td, blockquote, div').each((_, el) => {
+    const $node = $(el);
+    // Divs only count when they are used as paragraphs
+    if (
+      $node.is('div') &&
+      $node.children('p, div, pre, table, ul, ol').length
+    ) {
+      return;
+    }
+    const text = textOf($node);
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const points =
+      1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    addScore($node.parent(), points);
+    addScore($node.parent().parent(), points / 2);
+  });
+
+  const scored = candidates.map(($node) => {
+    const score =
+      ($node.data('readabilityScore') as number) * (1 - linkDensity($node));
+    $node.data('readabilityScore', score);
+    return { $node, score };
+  });
+  if (!scored.length) {
+    return $('body').html() || '';
+  }
+  const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+
+  // Sibling blocks that score well (or are link-light paragraphs) belong to
+  // the same article, e.g. content split across several section divs
+  const threshold = Math.max(10, best.score * 0.2);
+  const parts: string[] = [];
+  best.$node
+    .parent()
+    .children()
+    .each((_, el) => {
+      const $sibling = $(el);
+      if ($sibling.is(best.$node)) {
+        parts.push($.html($sibling));
+        return;
+      }
+      const score = $sibling.data('readabilityScore') as number | undefined;
+      const keep =
+        (score !== undefined && score >= threshold) ||
+        ($sibling.is('p') &&
+          textOf($sibling).length > 80 &&
+          linkDensity($sibling) < 0.25);
+      if (keep) parts.push($.html($sibling));
+    });
+
+  return parts.join('\n');
+}
+
+/**
+ * Select the HTML to convert for the requested extraction mode.
+ *
+ * - `full` keeps the whole body
+ * - `auto` uses the first well-known content container that holds a
+ *   meaningful share of the page's text, falling back to the whole body
+ * - `readability` scores the page and strips boilerplate
+ * @param $ - Loaded page
+ * @param mode - Extraction mode
+ */
+export function extractContentHtml(
+  $: cheerio.CheerioAPI,
+  mode: ExtractionMode = 'auto'
+): string {
+  if (mode === 'readability') {
+    return extractReadableContent($.html());
+  }
+
+  const body = $('body');
+  if (mode === 'auto') {
+    const bodyLength = textOf(body).length;
+    for (const selector of MAIN_SELECTORS) {
+      const element = $(selector).first();
+      if (!element.length) continue;
+      const length = textOf(element).length;
+      if (length > 0 && length >= bodyLength * MIN_MAIN_TEXT_SHARE) {
+        return element.html() || '';
+      }
+    }
+  }
+
+  return body.html() || '';
+}
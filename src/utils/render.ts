@@ -0,0 +1,50 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * How a page is fetched: `static` downloads the HTML over plain HTTP,
+ * `browser` renders it in headless Chrome, and `auto` starts static and
+ * switches to the browser only for pages that need JavaScript
+ */
+export const RENDER_MODES = ['auto', 'static', 'browser'] as const;
+
+export type RenderMode = (typeof RENDER_MODES)[number];
+
+/** The path that actually served a page */
+export type RenderPath = Exclude<RenderMode, 'auto'>;
+
+// Visible text below this is too little to be the page a reader sees
+const NEAR_EMPTY_TEXT = 200;
+// Pages this short may still be a shell when they ask for JavaScript
+const SHORT_TEXT = 1000;
+
+const JAVASCRIPT_REQUIRED =
+  /(enable|turn on|activate)\s+javascript|javascript\s+(is\s+)?(required|disabled|must be enabled)|requires?\s+javascript|without\s+javascript/i;
+
+// Mount points of client-rendered apps (React, Vue, Next.js, Nuxt, Angular)
+const APP_ROOTS = '#root, #app, #__next, #__nuxt, app-root, [data-reactroot]';
+
+/**
+ * Whether static HTML looks like the empty shell of a client-rendered app,
+ * so that only a browser would see its content: scripts with next to no
+ * text, or little text alongside a "please enable JavaScript" notice or an
+ * empty app mount point
+ * @param html - HTML as served, before any script ran
+ */
+export function looksLikeJsShell(html: string): boolean {
+  const $ = cheerio.load(html);
+  if (!$('script').length) return false;
+
+  const noscript = $('noscript').text();
+  const emptyRoot = $(APP_ROOTS)
+    .toArray()
+    .some((element) => !$(element).text().trim());
+
+  $('script, style, noscript, template, svg').remove();
+  const text = $('body').text().replace(/\s+/g, ' ').trim();
+
+  if (text.length < NEAR_EMPTY_TEXT) return true;
+  return (
+    text.length < SHORT_TEXT &&
+    (JAVASCRIPT_REQUIRED.test(noscript) || emptyRoot)
+  );
+}
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+
+/** Desktop Chrome, which sites serve their regular pages to */
+export const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+/** Accept header of a browser navigating to a page */
+export const HTML_ACCEPT =
+  'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.9';
+
+export const REQUEST_METHODS = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+] as const;
+
+export const REDACTED = '[REDACTED]';
+
+// Headers whose values are credentials and never appear in tool output
+const SENSITIVE_HEADER =
+  /^(authorization|proxy-authorization|cookie|set-cookie)$|token|secret|password|session|api[-_]?key|auth/i;
+
+// Shorter values are too likely to match ordinary text to be replaced
+const MIN_SECRET_LENGTH = 4;
+
+export const requestOptionsSchema = z
+  .object({
+    headers: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe(
+        'Extra request headers, e.g. {"Accept-Language": "de-DE"}; they replace defaults of the same name'
+      ),
+    cookies: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Cookies to send, by name'),
+    userAgent: z
+      .string()
+      .optional()
+      .describe('User-Agent header (default: desktop Chrome)'),
+    method: z
+      .enum(REQUEST_METHODS)
+      .optional()
+      .describe('HTTP method (default: GET)'),
+    body: z
+      .string()
+      .optional()
+      .describe(
+        'Request body, e.g. JSON or form data; set its Content-Type in headers'
+      ),
+    auth: z
+      .discriminatedUnion('type', [
+        z.object({
+          type: z.literal('basic'),
+          username: z.string(),
+          password: z.string(),
+        }),
+        z.object({ type: z.literal('bearer'), token: z.string() }),
+      ])
+      .optional()
+      .describe(
+        'HTTP authentication: basic with username and password, or a bearer token'
+      ),
+  })
+  .describe(
+    'How to send the request: headers, cookies, user agent, method, body and authentication. Credentials are redacted from the output.'
+  );
+
+export type RequestOptions = z.infer<typeof requestOptionsSchema>;
+
+function basicCredentials(username: string, password: string): string {
+  return Buffer.from(`${username}:${password}`).toString('base64');
+}
+
+/**
+ * Build the headers of a request: the defaults, then the user agent and
+ * authentication, then explicit headers, with cookies appended to any
+ * Cookie header. Names match case-insensitively, so an option replaces a
+ * default instead of sending it twice.
+ * @param options - Request options of the tool call
+ * @param defaults - Headers the tool sends when nothing overrides them
+ */
+export function buildRequestHeaders(
+  options: RequestOptions | undefined,
+  defaults: Record<string, string> = {}
+): Record<string, string> {
+  const headers = new Map<string, [string, string]>();
+  const set = (name: string, value: string) =>
+    headers.set(name.toLowerCase(), [name, value]);
+
+  for (const [name, value] of Object.entries(defaults)) set(name, value);
+  if (options?.userAgent) set('User-Agent', options.userAgent);
+  if (options?.auth?.type === 'basic') {
+    set(
+      'Authorization',
+      `Basic ${basicCredentials(options.auth.username, options.auth.password)}`
+    );
+  } else if (options?.auth?.type === 'bearer') {
+    set('Authorization', `Bearer ${options.auth.token}`);
+  }
+  for (const [name, value] of Object.entries(options?.headers ?? {})) {
+    set(name, value);
+  }
+
+  const cookies = Object.entries(options?.cookies ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+  if (cookies) {
+    const existing = headers.get('cookie')?.[1];
+    set('Cookie', existing ? `${existing}; ${cookies}` : cookies);
+  }
+
+  return Object.fromEntries(headers.values());
+}
+
+/**
+ * Whether the request has to be sent as given rather than as a plain GET,
+ * which rules out the headless browser
+ */
+export function hasRequestBody(options: RequestOptions | undefined): boolean {
+  return (
+    (options?.method !== undefined && options.method !== 'GET') ||
+    options?.body !== undefined
+  );
+}
+
+/**
+ * Copy of headers with the values of credential headers (Authorization,
+ * Cookie, API keys, tokens, ...) replaced by `[REDACTED]`
+ */
+export function redactHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SENSITIVE_HEADER.test(name) ? REDACTED : value,
+    ])
+  );
+}
+
+/**
+ * Credentials carried by request options, in every form they may be
+ * echoed back: header values, cookie values, passwords and tokens
+ */
+function secretValues(options: RequestOptions | undefined): string[] {
+  if (!options) return [];
+  const values = Object.entries(buildRequestHeaders(options))
+    .filter(([name]) => SENSITIVE_HEADER.test(name))
+    .flatMap(([name, value]) =>
+      name.toLowerCase() === 'authorization'
+        ? [value, value.replace(/^\S+\s+/, '')]
+        : [value]
+    );
+  values.push(...Object.values(options.cookies ?? {}));
+  if (options.auth?.type === 'basic') values.push(options.auth.password);
+  if (options.auth?.type === 'bearer') values.push(options.auth.token);
+
+  return [...new Set(values)]
+    .filter((value) => value.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace the credentials of a request wherever they appear in tool
+ * output, e.g. a page that echoes request headers or an error message.
+ * Values are matched both as is and as escaped inside JSON strings.
+ * @param text - Output about to be returned
+ * @param options - Request options of the tool call
+ */
+export function redactSecrets(
+  text: string,
+  options: RequestOptions | undefined
+): string {
+  let redacted = text;
+  for (const value of secretValues(options)) {
+    const escaped = JSON.stringify(value).slice(1, -1);
+    redacted = redacted.split(value).join(REDACTED);
+    if (escaped !== value) redacted = redacted.split(escaped).join(REDACTED);
+  }
+  return redacted;
+}
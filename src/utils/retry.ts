@@ -38,7 +38,7 @@ export async function withRetry<T>(
  * Checks if an error is fatal (should not be retried)
  * @param error - Error object
  */
-function isFatalError(error: unknown): boolean {
+export function isFatalError(error: unknown): boolean {
   // Check if error has statusCode property
   if (typeof error === 'object' && error !== null && 'statusCode' in error) {
     const statusCode = (error as { statusCode?: number }).statusCode;
@@ -0,0 +1,255 @@
+import fetch from 'node-fetch';
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  /** Seconds to wait between requests, from Crawl-delay */
+  crawlDelay?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+// RFC 9309 caps cached copies at a day and parsed files at 500 KiB
+const ROBOTS_CACHE_TTL = 24 * 60 * 60 * 1000;
+const ROBOTS_CACHE_MAX_ENTRIES = 500;
+const ROBOTS_MAX_BYTES = 500 * 1024;
+const ROBOTS_TIMEOUT = 10000;
+
+const ALLOW_ALL: RobotsRules = { rules: [] };
+
+const cache = new Map<
+  string,
+  { rules: Promise<RobotsRules>; expires: number }
+>();
+
+function parseGroups(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything and adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = Number.parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Parse robots.txt and keep the rules that apply to a user agent: the
+ * groups naming its product token, or else the `*` group
+ * @param text - robots.txt contents
+ * @param userAgent - Product token, e.g. `mcp-web-tools`
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.toLowerCase().split('/')[0].trim();
+  const groups = parseGroups(text);
+
+  let matched = groups.filter((group) => group.agents.includes(token));
+  if (!matched.length) {
+    matched = groups.filter((group) => group.agents.includes('*'));
+  }
+
+  const delays = matched
+    .map((group) => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+  return {
+    rules: matched.flatMap((group) => group.rules),
+    crawlDelay: delays.length ? Math.max(...delays) : undefined,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Regular expression source without the leading `^`, in a syntax both
+// JavaScript and the crawler's Rust regex engine accept
+function patternSource(pattern: string): string {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(escapeRegExp)
+    .join('.*');
+  return `${body}${anchored ? '$' : ''}`;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${patternSource(pattern)}`);
+}
+
+// Whether two rules may match a common path, judged by the literal text
+// before their first wildcard
+function mayOverlap(a: string, b: string): boolean {
+  const prefixA = a.split(/[*$]/)[0];
+  const prefixB = b.split(/[*$]/)[0];
+  return prefixA.startsWith(prefixB) || prefixB.startsWith(prefixA);
+}
+
+/**
+ * URL patterns for a crawler's blacklist, so it never requests what the
+ * rules disallow on an origin. The blacklist cannot express exceptions,
+ * so Disallow rules an equally long or longer Allow rule may override are
+ * left out; URLs they cover have to be checked with isAllowedByRobots.
+ * @param rules - Rules for the origin
+ * @param origin - Origin the rules belong to, e.g. `https://example.com`
+ */
+export function robotsBlacklist(rules: RobotsRules, origin: string): string[] {
+  const allows = rules.rules.filter((rule) => rule.allow);
+  return rules.rules
+    .filter(
+      (rule) =>
+        !rule.allow &&
+        !allows.some(
+          (allow) =>
+            allow.path.length >= rule.path.length &&
+            mayOverlap(allow.path, rule.path)
+        )
+    )
+    .map((rule) => `^${escapeRegExp(origin)}${patternSource(rule.path)}`);
+}
+
+/**
+ * Whether rules allow a URL. The longest matching rule wins and Allow wins
+ * ties, per RFC 9309; `*` and a trailing `$` are supported.
+ * @param rules - Rules for the URL's origin
+ * @param url - Absolute URL
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = parsed.pathname + parsed.search;
+  } catch {
+    return true;
+  }
+  if (target === '/robots.txt') return true;
+
+  let best: RobotsRule | undefined;
+  for (const rule of rules.rules) {
+    if (!patternToRegExp(rule.path).test(target)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+/**
+ * Error for an origin whose robots.txt could not be read because of a
+ * network error, a timeout or a server error. It carries no status code,
+ * so withRetry tries again, and keeps the failure as its `cause`.
+ */
+export function robotsUnavailableError(origin: string, cause: unknown): Error {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+  return Object.assign(
+    new Error(`Could not read ${origin}/robots.txt: ${reason}`, { cause }),
+    { robotsUnavailable: true }
+  );
+}
+
+/**
+ * @throws robotsUnavailableError when robots.txt cannot be read right now
+ */
+async function fetchRobotsRules(
+  origin: string,
+  userAgent: string
+): Promise<RobotsRules> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT);
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      signal: controller.signal,
+      headers: { 'User-Agent': userAgent, Accept: 'text/plain,*/*;q=0.5' },
+    });
+    // A missing robots.txt allows everything; a failing server says
+    // nothing about the rules, so the request is tried again later
+    if (response.status >= 400 && response.status < 500) return ALLOW_ALL;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const text = await response.text();
+    return parseRobotsTxt(text.slice(0, ROBOTS_MAX_BYTES), userAgent);
+  } catch (error) {
+    throw robotsUnavailableError(origin, error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Rules of a URL's origin for a user agent, from a cache of robots.txt
+ * files fetched within the last day
+ * @param url - Any URL on the origin
+ * @param userAgent - Product token to match against User-agent lines
+ */
+export async function getRobotsRules(
+  url: string,
+  userAgent: string
+): Promise<RobotsRules> {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return ALLOW_ALL;
+  }
+
+  const key = `${origin} ${userAgent}`;
+  const entry = cache.get(key);
+  if (entry && entry.expires > Date.now()) return await entry.rules;
+
+  // Concurrent requests to one origin share a single robots.txt fetch;
+  // failures are not cached
+  const rules = fetchRobotsRules(origin, userAgent).catch((error) => {
+    if (cache.get(key)?.rules === rules) cache.delete(key);
+    throw error;
+  });
+  cache.delete(key);
+  cache.set(key, { rules, expires: Date.now() + ROBOTS_CACHE_TTL });
+  while (cache.size > ROBOTS_CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return await rules;
+}
+
+export function clearRobotsCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,225 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { normalizeUrl } from './url.js';
+
+/**
+ * Where page snapshots are kept and for how long, set per deployment
+ * through environment variables
+ */
+export interface SnapshotConfig {
+  /** Directory holding one JSON file per URL and extraction options */
+  directory: string;
+  /** Versions kept per URL and extraction options, the latest included */
+  maxSnapshots: number;
+  /** Days after which older versions are dropped; 0 keeps them */
+  maxAgeDays: number;
+}
+
+export interface PageSnapshot {
+  /** Normalized markdown of the page */
+  content: string;
+  /** SHA-256 of the content */
+  hash: string;
+  /** When this version was first seen, ISO 8601 */
+  fetchedAt: string;
+  /** When this version was last seen, ISO 8601 */
+  checkedAt: string;
+}
+
+/**
+ * How a page's content was extracted. Content extracted differently is not
+ * comparable, so each combination keeps its own versions.
+ */
+export interface SnapshotOptions {
+  selector?: string;
+  excludeSelectors?: string[];
+  extractionMode?: string;
+  gfmTables?: boolean;
+  render?: string;
+}
+
+interface SnapshotFile extends SnapshotOptions {
+  url: string;
+  /** Versions, oldest first */
+  snapshots: PageSnapshot[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+}
+
+/**
+ * Read the snapshot settings from the environment: `MCP_SNAPSHOT_DIR`
+ * (default `~/.mcp-web-tools/snapshots`), `MCP_SNAPSHOT_RETENTION`
+ * (default 10 versions) and `MCP_SNAPSHOT_MAX_AGE_DAYS` (default 90)
+ */
+export function loadSnapshotConfig(
+  env: Record<string, string | undefined> = process.env
+): SnapshotConfig {
+  return {
+    directory:
+      env.MCP_SNAPSHOT_DIR?.trim() ||
+      path.join(os.homedir(), '.mcp-web-tools', 'snapshots'),
+    maxSnapshots: Math.max(1, envNumber(env.MCP_SNAPSHOT_RETENTION, 10)),
+    maxAgeDays: envNumber(env.MCP_SNAPSHOT_MAX_AGE_DAYS, 90),
+  };
+}
+
+/**
+ * Normalize extracted markdown so that only content changes show up in
+ * diffs: line endings, trailing spaces and runs of blank lines are evened
+ * out
+ */
+export function normalizeSnapshot(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Key of a page's snapshots. URLs differing only in tracking parameters,
+ * fragments or `www.` share a key; each set of extraction options has its
+ * own. The order of excludeSelectors does not matter.
+ */
+export function snapshotKey(
+  url: string,
+  options: SnapshotOptions = {}
+): string {
+  const excludeSelectors = (options.excludeSelectors ?? [])
+    .map((selector) => selector.trim())
+    .filter(Boolean)
+    .sort();
+  const extraction = JSON.stringify([
+    options.selector?.trim() || null,
+    excludeSelectors,
+    options.extractionMode ?? null,
+    options.gfmTables ?? false,
+    options.render ?? null,
+  ]);
+  return createHash('sha256')
+    .update(`${normalizeUrl(url)}\n${extraction}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function snapshotPath(key: string, config: SnapshotConfig): string {
+  return path.join(config.directory, `${key}.json`);
+}
+
+async function readSnapshotFile(
+  key: string,
+  config: SnapshotConfig
+): Promise<SnapshotFile | undefined> {
+  try {
+    return JSON.parse(
+      await fs.readFile(snapshotPath(key, config), 'utf8')
+    ) as SnapshotFile;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+async function writeSnapshotFile(
+  key: string,
+  file: SnapshotFile,
+  config: SnapshotConfig
+): Promise<void> {
+  await fs.mkdir(config.directory, { recursive: true });
+  // Written beside the target and renamed, so readers never see half a file
+  const target = snapshotPath(key, config);
+  const temporary = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(file, null, 2));
+  await fs.rename(temporary, target);
+}
+
+/**
+ * Drop versions beyond the retention count or age. The latest version is
+ * always kept, since the next check is compared against it.
+ */
+function prune(
+  snapshots: PageSnapshot[],
+  config: SnapshotConfig,
+  now: number
+): PageSnapshot[] {
+  const latest = snapshots[snapshots.length - 1];
+  const kept = snapshots
+    .slice(0, -1)
+    .filter(
+      (snapshot) =>
+        config.maxAgeDays <= 0 ||
+        now - Date.parse(snapshot.checkedAt) <= config.maxAgeDays * DAY
+    );
+  return [...kept, latest].slice(-config.maxSnapshots);
+}
+
+// Checks of one page are serialized so none of their versions is lost
+const pending = new Map<string, Promise<unknown>>();
+
+/**
+ * Store a page's content as its latest snapshot. Content equal to the
+ * latest version only updates its `checkedAt`.
+ * @param url - Page URL
+ * @param options - Options the content was extracted with
+ * @param content - Extracted markdown
+ * @param config - Snapshot settings
+ * @returns The previous latest snapshot, if the page had one, and the new one
+ */
+export async function recordSnapshot(
+  url: string,
+  options: SnapshotOptions,
+  content: string,
+  config: SnapshotConfig
+): Promise<{ previous?: PageSnapshot; current: PageSnapshot }> {
+  const key = snapshotKey(url, options);
+  const run = (pending.get(key) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const now = new Date();
+      const normalized = normalizeSnapshot(content);
+      const hash = createHash('sha256').update(normalized).digest('hex');
+      const file = (await readSnapshotFile(key, config)) ?? {
+        url,
+        ...options,
+        snapshots: [],
+      };
+
+      const previous = file.snapshots[file.snapshots.length - 1];
+      let current: PageSnapshot;
+      if (previous?.hash === hash) {
+        current = { ...previous, checkedAt: now.toISOString() };
+        file.snapshots[file.snapshots.length - 1] = current;
+      } else {
+        current = {
+          content: normalized,
+          hash,
+          fetchedAt: now.toISOString(),
+          checkedAt: now.toISOString(),
+        };
+        file.snapshots.push(current);
+      }
+      file.snapshots = prune(file.snapshots, config, now.getTime());
+
+      await writeSnapshotFile(key, file, config);
+      return { previous, current };
+    });
+
+  pending.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (pending.get(key) === run) pending.delete(key);
+  }
+}
@@ -0,0 +1,146 @@
+import * as cheerio from 'cheerio';
+
+export interface ExtractedTable {
+  caption?: string;
+  /** Column headers, empty when the table has no header row */
+  headers: string[];
+  /** Body rows, each padded to the number of columns */
+  rows: string[][];
+}
+
+// Browsers clamp spans to these limits; malformed markup should not
+// allocate huge grids
+const MAX_COLSPAN = 1000;
+const MAX_ROWSPAN = 65534;
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+function cellText($cell: Selection): string {
+  return $cell.text().replace(/\s+/g, ' ').trim();
+}
+
+function span(value: string | undefined, max: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : 1;
+}
+
+/**
+ * Turn one `<table>` into a rectangular grid. Cells spanning several
+ * columns or rows repeat their text in every slot they cover, so each row
+ * lines up with the headers. Header rows are the `<thead>` rows, or the
+ * leading rows made only of `<th>` cells; several header rows are merged
+ * column by column.
+ * @param $ - Loaded document containing the table
+ * @param table - The table element
+ */
+export function parseTable(
+  $: cheerio.CheerioAPI,
+  table: Selection
+): ExtractedTable {
+  const grid: string[][] = [];
+  const headerFlags: boolean[] = [];
+
+  // Rows of nested tables belong to those tables
+  const rows = table
+    .find('tr')
+    .filter((_, tr) => $(tr).closest('table').is(table));
+
+  rows.each((rowIndex, tr) => {
+    const $row = $(tr);
+    grid[rowIndex] ??= [];
+    const cells = $row.children('th, td');
+    headerFlags[rowIndex] =
+      $row.parent().is('thead') ||
+      (cells.length > 0 && cells.filter('td').length === 0);
+
+    let column = 0;
+    cells.each((_, cell) => {
+      const $cell = $(cell);
+      while (grid[rowIndex][column] !== undefined) column++;
+
+      const text = cellText($cell);
+      const colspan = span($cell.attr('colspan'), MAX_COLSPAN);
+      // rowspan="0" spans the rest of the section
+      const rowspan =
+        $cell.attr('rowspan') === '0'
+          ? rows.length - rowIndex
+          : Math.min(
+              span($cell.attr('rowspan'), MAX_ROWSPAN),
+              rows.length - rowIndex
+            );
+
+      for (let r = 0; r < rowspan; r++) {
+        grid[rowIndex + r] ??= [];
+        for (let c = 0; c < colspan; c++) {
+          grid[rowIndex + r][column + c] = text;
+        }
+      }
+      column += colspan;
+    });
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  const filled = grid.map((row) =>
+    Array.from({ length: width }, (_, i) => row[i] ?? '')
+  );
+
+  let headerCount = 0;
+  while (headerCount < filled.length && headerFlags[headerCount]) {
+    headerCount++;
+  }
+  // A table made only of header cells is data laid out with <th>
+  if (headerCount === filled.length) headerCount = Math.min(1, headerCount);
+
+  const headers = Array.from({ length: headerCount ? width : 0 }, (_, i) =>
+    filled
+      .slice(0, headerCount)
+      .map((row) => row[i])
+      .filter((text, index, all) => text && all.indexOf(text) === index)
+      .join(' / ')
+  );
+
+  const caption = cellText(table.children('caption').first());
+  return {
+    caption: caption || undefined,
+    headers,
+    rows: filled.slice(headerCount),
+  };
+}
+
+/**
+ * Parse every table in a document, skipping layout tables without any
+ * content
+ * @param html - HTML to search for tables
+ */
+export function extractTables(html: string): ExtractedTable[] {
+  const $ = cheerio.load(html);
+  return $('table')
+    .toArray()
+    .map((table) => parseTable($, $(table)))
+    .filter((table) => [...table.headers, ...table.rows.flat()].some(Boolean));
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
+
+/**
+ * Render a table as a GitHub Flavored Markdown pipe table. GFM requires
+ * a header row, so the first body row is promoted when there is none.
+ * @param table - Parsed table
+ */
+export function renderGfmTable(table: ExtractedTable): string {
+  let { headers, rows } = table;
+  if (!headers.length) {
+    [headers = [], ...rows] = rows;
+  }
+  if (!headers.length) return '';
+
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell) => escapeCell(cell)).join(' | ')} |`;
+  return [
+    line(headers),
+    line(headers.map(() => '---')),
+    ...rows.map(line),
+  ].join('\n');
+}
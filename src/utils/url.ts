@@ -0,0 +1,75 @@
+// Query parameters that only track the visit and never change the page
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid|ref_src)$/i;
+
+/**
+ * Normalize a URL for de-duplication: lowercases the host, drops `www.`,
+ * default ports, fragments, tracking parameters and trailing slashes,
+ * and sorts the remaining query parameters
+ * @param url - Absolute URL to normalize
+ * @returns The normalized URL, or the input unchanged when it cannot be parsed
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length
+    ? `?${new URLSearchParams(params).toString()}`
+    : '';
+
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  return `${parsed.protocol}//${host}${port}${path}${query}`;
+}
+
+/**
+ * Compile a URL glob: `**` matches anything, `*` anything but `/` and
+ * `?` a single character other than `/`
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Whether a URL matches a glob. Patterns containing `://` are matched
+ * against the whole URL, others against its path and query, so
+ * `/docs/**` selects a section of any site.
+ * @param url - Absolute URL
+ * @param pattern - Glob such as `/docs/**` or `https://*.example.com/**`
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  let target = url;
+  if (!pattern.includes('://')) {
+    try {
+      const parsed = new URL(url);
+      target = parsed.pathname + parsed.search;
+    } catch {
+      return false;
+    }
+  }
+  return globToRegExp(pattern).test(target);
+}
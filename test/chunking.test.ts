@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { readChunk } from '../src/utils/chunking';
+import { webCrawlSchema } from '../src/tools/web-crawl';
+import { webPageSchema } from '../src/tools/web-page';
+
+describe('readChunk', () => {
+  it('should return the rest of the text when it fits', () => {
+    expect(readChunk('# Title\n\nBody', 2, 100)).toEqual({
+      content: 'Title\n\nBody',
+      end: 13,
+    });
+  });
+
+  it('should end before a heading or paragraph', () => {
+    const text = '# Intro\n\nFirst paragraph here.\n\n## Details\n\nMore text follows.';
+    const chunk = readChunk(text, 0, 40);
+    expect(chunk.content).toBe('# Intro\n\nFirst paragraph here.');
+    expect(text.slice(chunk.end)).toMatch(/^## Details/);
+  });
+
+  it('should not split inside a code fence when a boundary exists', () => {
+    const text =
+      'Setup steps for the project.\n\n```\nnpm install\nnpm run build\nnpm test\n```\n\nDone.';
+    const chunk = readChunk(text, 0, 60);
+    expect(chunk.content).toBe('Setup steps for the project.');
+    expect(text.slice(chunk.end)).toMatch(/^```/);
+  });
+
+  it('should fall back to a word boundary inside a long paragraph', () => {
+    const chunk = readChunk('alpha beta gamma delta epsilon', 0, 13);
+    expect(chunk).toEqual({ content: 'alpha beta', end: 11 });
+  });
+});
+
+describe('chunk size limits', () => {
+  it('should reject a maxLength below 1 and a negative startIndex', () => {
+    const urls = ['https://example.com'];
+    expect(webPageSchema.safeParse({ urls, maxLength: 0 }).success).toBe(false);
+    expect(webPageSchema.safeParse({ urls, maxLength: 1.5 }).success).toBe(false);
+    expect(webPageSchema.safeParse({ urls, maxLength: 1 }).success).toBe(true);
+    expect(webPageSchema.safeParse({ urls, startIndex: -1 }).success).toBe(false);
+    expect(webPageSchema.safeParse({ urls, startIndex: 0 }).success).toBe(true);
+
+    const url = 'https://example.com';
+    expect(webCrawlSchema.safeParse({ url, maxLength: 0 }).success).toBe(false);
+    expect(webCrawlSchema.safeParse({ url, maxLength: 1 }).success).toBe(true);
+  });
+
+  it('should still advance when called with a maxLength of 0', () => {
+    const chunk = readChunk('one two three', 0, 0);
+    expect(chunk.end).toBeGreaterThan(0);
+  });
+});
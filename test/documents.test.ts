@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  decodeText,
+  detectDocumentKind,
+  docxToHtml,
+  formatJson,
+  odtToHtml,
+  xmlToText,
+} from '../src/utils/documents';
+import { queryJsonPath } from '../src/utils/jsonpath';
+
+function loadFixture(name: string) {
+  return new Uint8Array(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url))
+  );
+}
+
+describe('detectDocumentKind', () => {
+  it('should prefer signatures, then the content type, then the extension', () => {
+    expect(detectDocumentKind('https://a.com/x', 'application/octet-stream', '%PDF-1.7\n')).toBe('pdf');
+    expect(detectDocumentKind('https://a.com/x.pdf', 'text/html')).toBe('html');
+    expect(detectDocumentKind('https://a.com/report.PDF?v=2')).toBe('pdf');
+    expect(detectDocumentKind('https://a.com/api', 'application/ld+json; charset=utf-8')).toBe('json');
+    expect(detectDocumentKind('https://a.com/feed', 'application/rss+xml')).toBe('xml');
+    expect(detectDocumentKind('https://a.com/page', 'application/xhtml+xml')).toBe('html');
+    expect(detectDocumentKind('https://a.com/README.md', undefined, '# Title')).toBe('markdown');
+    expect(detectDocumentKind('https://a.com/notes.odt', 'application/octet-stream', 'PK\u0003\u0004')).toBe('odt');
+    expect(detectDocumentKind('https://a.com/sitemap', undefined, '<?xml version="1.0"?><urlset>')).toBe('xml');
+    expect(detectDocumentKind('https://a.com/report')).toBe('html');
+  });
+});
+
+describe('decodeText', () => {
+  const latin1 = (text: string) => new Uint8Array(Buffer.from(text, 'latin1'));
+
+  it('should decode in the charset from the header or a meta tag', () => {
+    expect(decodeText(latin1('Café'), 'text/html; charset=ISO-8859-1')).toBe('Café');
+    expect(
+      decodeText(latin1('<meta http-equiv="Content-Type" content="text/html; charset=windows-1252"><p>Crème</p>'))
+    ).toContain('Crème');
+    expect(decodeText(latin1('<meta charset="latin1"><p>Übung</p>'), 'text/html')).toContain('Übung');
+  });
+
+  it('should fall back to UTF-8 for missing or unknown charsets', () => {
+    const utf8 = new TextEncoder().encode('Café');
+    expect(decodeText(utf8)).toBe('Café');
+    expect(decodeText(utf8, 'text/html; charset=no-such-charset')).toBe('Café');
+  });
+});
+
+describe('formatJson', () => {
+  it('should pretty-print the whole document without a JSONPath', () => {
+    expect(formatJson('{"a":[1,2]}')).toBe('{\n  "a": [\n    1,\n    2\n  ]\n}');
+  });
+
+  it('should report malformed JSON', () => {
+    expect(() => formatJson('{"a":')).toThrow(/^Invalid JSON/);
+    // Not retried, since a retry downloads the same body
+    expect(() => formatJson('{"a":')).toThrow(
+      expect.objectContaining({ statusCode: 422 })
+    );
+  });
+});
+
+describe('queryJsonPath', () => {
+  const data = {
+    store: {
+      book: [
+        { title: 'A', price: 8 },
+        { title: 'B', price: 12 },
+        { title: 'C', price: 9 },
+      ],
+      'gift card': { price: 25 },
+    },
+  };
+
+  it('should support members, indexes, slices, wildcards and descent', () => {
+    expect(queryJsonPath(data, '$.store.book[0].title')).toEqual(['A']);
+    expect(queryJsonPath(data, "$['store']['gift card'].price")).toEqual([25]);
+    expect(queryJsonPath(data, '$.store.book[-1].title')).toEqual(['C']);
+    expect(queryJsonPath(data, '$.store.book[0:2].title')).toEqual(['A', 'B']);
+    expect(queryJsonPath(data, '$.store.book[*].price')).toEqual([8, 12, 9]);
+    expect(queryJsonPath(data, '$..price')).toEqual([8, 12, 9, 25]);
+    expect(queryJsonPath(data, 'store.missing')).toEqual([]);
+    expect(queryJsonPath(data, '$')).toEqual([data]);
+  });
+
+  it('should reject unsupported expressions as caller errors', () => {
+    expect(() => queryJsonPath(data, '$.store.book[?(@.price<10)]')).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+    expect(() => queryJsonPath(data, '$.store.book[0')).toThrow(/unclosed bracket/);
+  });
+});
+
+describe('xmlToText', () => {
+  it('should render elements as an indented tree with attributes', () => {
+    const xml =
+      '<?xml version="1.0"?><rss version="2.0"><channel><title>News</title>' +
+      '<item><title>A &amp; B</title><pubDate>Tue, 05 Mar 2024</pubDate>' +
+      '<description><![CDATA[<b>Bold</b> move]]></description></item></channel></rss>';
+
+    expect(xmlToText(xml)).toBe(
+      [
+        'rss (version=2.0)',
+        '  channel',
+        '    title: News',
+        '    item',
+        '      title: A & B',
+        '      pubDate: Tue, 05 Mar 2024',
+        '      description: <b>Bold</b> move',
+      ].join('\n')
+    );
+  });
+});
+
+describe('office documents', () => {
+  it('should convert DOCX to HTML', async () => {
+    expect(await docxToHtml(loadFixture('sample.docx'))).toBe(
+      '<h1>Release Notes</h1><p>Version 2 adds <strong>streaming</strong>.</p>'
+    );
+  });
+
+  it('should convert ODT headings, links, lists and tables to HTML', async () => {
+    const html = await odtToHtml(loadFixture('sample.odt'));
+
+    expect(html).toContain('<h1>Meeting Notes</h1>');
+    expect(html).toContain('<a href="https://example.com/spec">spec</a>');
+    expect(html).toContain('<ul><li><p>Ship it</p></li><li><p>Write docs</p></li></ul>');
+    expect(html).toContain('<tr><td><p>Docs</p></td><td><p>Sam</p></td></tr>');
+  });
+});
@@ -1,7 +1,31 @@
-import { describe, it, expect } from 'vitest';
-import { downloadFilesSchema } from '../src/tools/download-files.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import {
+  downloadFilesSchema,
+  downloadFilesTool,
+} from '../src/tools/download-files.js';
+import { DEFAULT_USER_AGENT } from '../src/utils/request.js';
+
+const { fetchMock } = vi.hoisted(() => ({ fetchMock: vi.fn() }));
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+// Robots.txt and host pacing have their own tests
+vi.stubEnv('MCP_RESPECT_ROBOTS_TXT', 'false');
+vi.stubEnv('MCP_HOST_DELAY_MS', '0');
 
 describe('downloadFilesTool', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    fetchMock.mockReset();
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
   it('should validate input schema correctly', () => {
     const validInput = {
       urls: ['https://example.com/file.txt'],
@@ -25,4 +49,70 @@ describe('downloadFilesTool', () => {
 
     expect(() => downloadFilesSchema.parse(invalidInput)).toThrow();
   });
-});
\ No newline at end of file
+
+  it('should send the request options with each download', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'downloads-'));
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      body: Readable.from(['report contents']),
+    });
+
+    const result = await downloadFilesTool({
+      urls: ['https://files.example/report.csv'],
+      directory,
+      request: {
+        method: 'POST',
+        body: 'format=csv',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        cookies: { session: 'abc-session-42' },
+        auth: { type: 'basic', username: 'alice', password: 'wonderland' },
+      },
+      maxRetries: 1,
+      retryDelay: 1,
+      timeout: 5000,
+      concurrency: 1,
+    });
+    const [download] = JSON.parse(result.content[0].text);
+
+    expect(download.success).toBe(true);
+    expect(await readFile(join(directory, 'report.csv'), 'utf8')).toBe(
+      'report contents'
+    );
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://files.example/report.csv');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('format=csv');
+    expect(init.headers).toEqual({
+      'User-Agent': DEFAULT_USER_AGENT,
+      Authorization: `Basic ${Buffer.from('alice:wonderland').toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Cookie: 'session=abc-session-42',
+    });
+  });
+
+  it('should redact credentials from error output', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'downloads-'));
+    fetchMock.mockRejectedValue(
+      new Error('Proxy refused Authorization: Bearer secret-token-123')
+    );
+
+    const result = await downloadFilesTool({
+      urls: ['https://files.example/private.zip'],
+      directory,
+      request: { auth: { type: 'bearer', token: 'secret-token-123' } },
+      maxRetries: 1,
+      retryDelay: 1,
+      timeout: 5000,
+      concurrency: 1,
+    });
+    const [download] = JSON.parse(result.content[0].text);
+
+    expect(download.success).toBe(false);
+    expect(download.error).toBe(
+      'Proxy refused Authorization: [REDACTED]'
+    );
+    expect(result.content[0].text).not.toContain('secret-token-123');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import {
+  parseHtmlResults,
+  parseLiteResults,
+  buildNextPageUrl,
+  parseNextPageParams,
+  parseRelatedSearches,
+  parseVerticalResults,
+  extractVqd,
+} from '../src/providers/duckduckgo';
+
+function loadFixture(name: string) {
+  return cheerio.load(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+  );
+}
+
+describe('DuckDuckGo result parsing', () => {
+  it('should extract snippets, display URLs and dates from the html layout', () => {
+    const results = parseHtmlResults(
+      loadFixture('ddg-html.html'),
+      'https://html.duckduckgo.com/html/'
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toEqual({
+      title: 'TypeScript: Documentation - Generics',
+      url: 'https://www.typescriptlang.org/docs/handbook/2/generics.html',
+      snippet:
+        'Being able to create a component that can work over a variety of types rather than a single one.',
+      source: 'www.typescriptlang.org',
+      displayUrl: 'www.typescriptlang.org/docs/handbook/2/generics.html',
+      position: 1,
+      date: '2024-03-18',
+    });
+    expect(results[1].position).toBe(2);
+    expect(results[1].snippet).toBe('A gentle introduction.');
+    expect(results[1].date).toBeUndefined();
+  });
+
+  it('should extract snippets, display URLs and dates from the lite layout', () => {
+    const results = parseLiteResults(
+      loadFixture('ddg-lite.html'),
+      'https://lite.duckduckgo.com/lite/'
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toEqual({
+      title: 'Node.js Documentation',
+      url: 'https://nodejs.org/en/docs/',
+      snippet: 'Official Node.js API reference and guides.',
+      source: 'nodejs.org',
+      displayUrl: 'nodejs.org/en/docs/',
+      position: 1,
+      date: '2024-05-02',
+    });
+    expect(results[1]).toMatchObject({
+      url: 'https://github.com/nodejs/node',
+      snippet: 'Node.js JavaScript runtime.',
+      displayUrl: 'github.com/nodejs/node',
+      position: 2,
+    });
+    expect(results[1].date).toBeUndefined();
+  });
+
+  it('should read the hidden inputs of the next-page form', () => {
+    expect(
+      parseNextPageParams(
+        loadFixture('ddg-html.html'),
+        'https://html.duckduckgo.com/html/'
+      )
+    ).toEqual({
+      layout: 'html',
+      q: 'typescript generics',
+      s: '10',
+      nextParams: '',
+      v: 'l',
+      o: 'json',
+      dc: '11',
+      api: 'd.js',
+      vqd: '4-123456789',
+      kl: 'wt-wt',
+    });
+    expect(
+      parseNextPageParams(
+        loadFixture('ddg-lite.html'),
+        'https://lite.duckduckgo.com/lite/'
+      )
+    ).toBeUndefined();
+  });
+
+  it('should only send next-page requests to DuckDuckGo', () => {
+    const html = new URL(buildNextPageUrl({ layout: 'html', q: 'x', s: '10' }));
+    expect(html.origin + html.pathname).toBe('https://duckduckgo.com/html/');
+    expect(html.searchParams.get('s')).toBe('10');
+
+    expect(buildNextPageUrl({ layout: 'lite', q: 'x' })).toMatch(/^https:\/\/lite\.duckduckgo\.com\/lite\/\?/);
+    // A crafted cursor cannot point the server elsewhere
+    const crafted = new URL(buildNextPageUrl({ endpoint: 'http://169.254.169.254/latest/', q: 'x' }));
+    expect(crafted.hostname).toBe('duckduckgo.com');
+  });
+
+  it('should read the related searches block', () => {
+    expect(parseRelatedSearches(loadFixture('ddg-html.html'))).toEqual([
+      'typescript generics constraints',
+      'typescript generic types',
+    ]);
+    expect(parseRelatedSearches(loadFixture('ddg-lite.html'))).toEqual([]);
+  });
+
+  it('should read the vqd token from a results page', () => {
+    expect(
+      extractVqd('<script>DDG.deep.initialize("/d.js?q=x&vqd=4-3344556677&kl=wt-wt")</script>')
+    ).toBe('4-3344556677');
+    expect(extractVqd('<html></html>')).toBeNull();
+  });
+
+  it('should map news, image and video payloads onto typed results', () => {
+    const news = parseVerticalResults('news', {
+      results: [
+        {
+          title: 'Release announced',
+          url: 'https://news.example.com/release',
+          excerpt: 'The <b>release</b> is out',
+          source: 'Example News',
+          date: 1717200000,
+          image: 'https://news.example.com/thumb.jpg',
+        },
+      ],
+    });
+    expect(news).toEqual({
+      vertical: 'news',
+      results: [
+        {
+          title: 'Release announced',
+          url: 'https://news.example.com/release',
+          snippet: 'The release is out',
+          source: 'news.example.com',
+          publisher: 'Example News',
+          publishedAt: '2024-06-01T00:00:00.000Z',
+          imageUrl: 'https://news.example.com/thumb.jpg',
+          position: 1,
+        },
+      ],
+    });
+
+    const images = parseVerticalResults('images', {
+      results: [
+        {
+          title: 'Diagram',
+          url: 'https://docs.example.com/page',
+          image: 'https://cdn.example.com/diagram.png',
+          thumbnail: 'https://tse.example.com/th.jpg',
+          width: 1200,
+          height: 800,
+        },
+        { title: 'No image', url: 'https://example.com/' },
+      ],
+    });
+    expect(images.results).toEqual([
+      {
+        title: 'Diagram',
+        url: 'https://docs.example.com/page',
+        source: 'docs.example.com',
+        imageUrl: 'https://cdn.example.com/diagram.png',
+        thumbnailUrl: 'https://tse.example.com/th.jpg',
+        width: 1200,
+        height: 800,
+        position: 1,
+      },
+    ]);
+
+    const videos = parseVerticalResults('videos', {
+      results: [
+        {
+          title: 'Talk',
+          content: 'https://www.youtube.com/watch?v=abc',
+          description: 'Conference talk',
+          publisher: 'YouTube',
+          uploader: 'Speaker',
+          duration: '32:10',
+          published: '2024-02-03T10:00:00.0000000',
+          images: { small: 'https://i.example.com/s.jpg' },
+          statistics: { viewCount: 1234 },
+        },
+      ],
+    });
+    expect(videos.results[0]).toMatchObject({
+      url: 'https://www.youtube.com/watch?v=abc',
+      source: 'www.youtube.com',
+      duration: '32:10',
+      thumbnailUrl: 'https://i.example.com/s.jpg',
+      viewCount: 1234,
+      position: 1,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { discoverFeeds, filterItemsSince, parseFeed } from '../src/utils/feeds';
+
+const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Example Blog</title>
+    <link>https://blog.example/</link>
+    <description>Notes &amp; releases</description>
+    <item>
+      <title>Version 2.0</title>
+      <link>/posts/v2</link>
+      <guid>post-2</guid>
+      <pubDate>Tue, 05 Mar 2024 10:00:00 GMT</pubDate>
+      <description><![CDATA[<p>Adds <b>streaming</b>.</p>]]></description>
+    </item>
+    <item>
+      <title>Version 1.0</title>
+      <link>https://blog.example/posts/v1</link>
+      <dc:date>2024-01-10T08:00:00Z</dc:date>
+    </item>
+  </channel>
+</rss>`;
+
+const atom = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Releases</title>
+  <link rel="self" href="https://code.example/releases.atom"/>
+  <link href="https://code.example/releases"/>
+  <entry>
+    <title>v3.1.0</title>
+    <id>tag:code.example,2024:v3.1.0</id>
+    <link rel="alternate" type="text/html" href="https://code.example/releases/v3.1.0"/>
+    <updated>2024-04-02T12:00:00Z</updated>
+    <content type="html">&lt;ul&gt;&lt;li&gt;Faster startup&lt;/li&gt;&lt;/ul&gt;</content>
+  </entry>
+</feed>`;
+
+describe('parseFeed', () => {
+  it('should parse RSS 2.0 items with resolved links and ISO dates', () => {
+    const feed = parseFeed(rss, 'https://blog.example/feed.xml');
+
+    expect(feed).toMatchObject({
+      format: 'rss',
+      title: 'Example Blog',
+      link: 'https://blog.example/',
+      description: 'Notes & releases',
+    });
+    expect(feed?.items).toEqual([
+      {
+        title: 'Version 2.0',
+        link: 'https://blog.example/posts/v2',
+        id: 'post-2',
+        published: '2024-03-05T10:00:00.000Z',
+        updated: undefined,
+        summary: 'Adds streaming.',
+      },
+      {
+        title: 'Version 1.0',
+        link: 'https://blog.example/posts/v1',
+        id: undefined,
+        published: '2024-01-10T08:00:00.000Z',
+        updated: undefined,
+        summary: undefined,
+      },
+    ]);
+  });
+
+  it('should parse Atom entries using their alternate links', () => {
+    const feed = parseFeed(atom, 'https://code.example/releases.atom');
+
+    expect(feed?.format).toBe('atom');
+    expect(feed?.link).toBe('https://code.example/releases');
+    expect(feed?.items[0]).toMatchObject({
+      title: 'v3.1.0',
+      link: 'https://code.example/releases/v3.1.0',
+      id: 'tag:code.example,2024:v3.1.0',
+      updated: '2024-04-02T12:00:00.000Z',
+      summary: 'Faster startup',
+    });
+  });
+
+  it('should parse JSON Feed and reject documents that are not feeds', () => {
+    const json = JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'Microblog',
+      home_page_url: 'https://micro.example/',
+      items: [
+        {
+          id: 1,
+          url: '/1',
+          content_text: 'Hello',
+          date_published: '2024-02-01T09:30:00+01:00',
+        },
+      ],
+    });
+
+    expect(parseFeed(json, 'https://micro.example/feed.json')).toEqual({
+      format: 'json',
+      title: 'Microblog',
+      link: 'https://micro.example/',
+      description: undefined,
+      items: [
+        {
+          title: 'Untitled',
+          link: 'https://micro.example/1',
+          id: '1',
+          published: '2024-02-01T08:30:00.000Z',
+          updated: undefined,
+          summary: 'Hello',
+        },
+      ],
+    });
+    expect(parseFeed('{"items":[]}', 'https://a.example')).toBeUndefined();
+    expect(parseFeed('<html><body></body></html>', 'https://a.example')).toBeUndefined();
+  });
+});
+
+describe('discoverFeeds', () => {
+  it('should list advertised feeds, ignoring other alternates', () => {
+    const html = `<html><head>
+      <link rel="alternate" type="application/rss+xml" title="Posts" href="/feed.xml">
+      <link rel="alternate" type="application/atom+xml" href="https://blog.example/atom.xml">
+      <link rel="alternate" type="application/json" href="/wp-json/wp/v2/pages/1">
+      <link rel="alternate" hreflang="de" href="/de/">
+    </head></html>`;
+
+    expect(discoverFeeds(html, 'https://blog.example/about')).toEqual([
+      { url: 'https://blog.example/feed.xml', title: 'Posts', type: 'application/rss+xml' },
+      { url: 'https://blog.example/atom.xml', title: undefined, type: 'application/atom+xml' },
+    ]);
+  });
+});
+
+describe('filterItemsSince', () => {
+  it('should keep items published or updated since the date', () => {
+    const items = [
+      { title: 'new', published: '2024-03-05T10:00:00.000Z' },
+      { title: 'edited', published: '2023-12-01', updated: '2024-03-02T00:00:00.000Z' },
+      { title: 'old', published: '2024-01-10T08:00:00.000Z' },
+      { title: 'undated' },
+    ];
+
+    expect(filterItemsSince(items, '2024-03-01').map((item) => item.title)).toEqual([
+      'new',
+      'edited',
+    ]);
+  });
+});
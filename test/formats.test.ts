@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildOutline,
+  cleanHtml,
+  htmlToText,
+  renderOutline,
+} from '../src/utils/formats';
+
+describe('htmlToText', () => {
+  it('should keep blocks on separate lines without markup', () => {
+    expect(
+      htmlToText(
+        '<h1>Title</h1><p>First <b>bold</b> line<br>second line</p><ul><li>One</li><li>Two</li></ul><script>x()</script>'
+      )
+    ).toBe('Title\n\nFirst bold line\nsecond line\n\nOne\n\nTwo');
+  });
+});
+
+describe('cleanHtml', () => {
+  it('should drop scripts, comments and presentational attributes', () => {
+    expect(
+      cleanHtml(
+        '<div class="x" style="color:red"><!-- ad --><a href="/docs" onclick="t()">Docs</a><img src="a.png" alt="A" width="10"><script>t()</script></div>',
+        'https://example.com/page'
+      )
+    ).toBe(
+      '<div><a href="https://example.com/docs">Docs</a><img src="https://example.com/a.png" alt="A"></div>'
+    );
+  });
+});
+
+describe('buildOutline', () => {
+  it('should nest headings with offsets into the markdown', () => {
+    const markdown = [
+      '# Guide',
+      '',
+      'Intro.',
+      '',
+      '## Install',
+      '',
+      '```',
+      '# not a heading',
+      '```',
+      '',
+      '### From source',
+      '',
+      '## Usage',
+    ].join('\n');
+    const outline = buildOutline(markdown);
+
+    expect(outline).toHaveLength(1);
+    expect(outline[0]).toMatchObject({ level: 1, text: 'Guide', offset: 0 });
+    expect(outline[0].children.map((h) => h.text)).toEqual([
+      'Install',
+      'Usage',
+    ]);
+    const install = outline[0].children[0];
+    expect(markdown.slice(install.offset)).toMatch(/^## Install/);
+    expect(install.children[0]).toMatchObject({
+      level: 3,
+      text: 'From source',
+    });
+    expect(renderOutline(outline)).toBe(
+      [
+        '- Guide (offset 0)',
+        '  - Install (offset 17)',
+        '    - From source (offset 54)',
+        '  - Usage (offset 71)',
+      ].join('\n')
+    );
+  });
+});
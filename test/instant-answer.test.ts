@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseInstantAnswer } from '../src/tools/instant-answer';
+
+describe('parseInstantAnswer', () => {
+  it('should return the abstract, infobox and related topics', () => {
+    const answer = parseInstantAnswer('rust', {
+      Type: 'A',
+      Heading: 'Rust (programming language)',
+      AbstractText: 'Rust is a general-purpose programming language.',
+      AbstractSource: 'Wikipedia',
+      AbstractURL: 'https://en.wikipedia.org/wiki/Rust_(programming_language)',
+      Image: '/i/rust-logo.png',
+      Infobox: {
+        content: [
+          { label: 'Designed by', value: 'Graydon Hoare' },
+          { label: 'First appeared', value: 2015 },
+          { label: 'Logo', value: { id: 'x' } },
+        ],
+      },
+      RelatedTopics: [
+        { Text: 'Cargo - package manager', FirstURL: 'https://duckduckgo.com/Cargo' },
+        {
+          Name: 'See also',
+          Topics: [{ Text: 'Go', FirstURL: 'https://duckduckgo.com/Go' }],
+        },
+      ],
+    });
+
+    expect(answer).toMatchObject({
+      found: true,
+      type: 'article',
+      heading: 'Rust (programming language)',
+      abstract: 'Rust is a general-purpose programming language.',
+      abstractUrl: 'https://en.wikipedia.org/wiki/Rust_(programming_language)',
+      image: 'https://api.duckduckgo.com/i/rust-logo.png',
+      infobox: [
+        { label: 'Designed by', value: 'Graydon Hoare' },
+        { label: 'First appeared', value: '2015' },
+      ],
+      relatedTopics: [
+        { text: 'Cargo - package manager', url: 'https://duckduckgo.com/Cargo' },
+        { text: 'Go', url: 'https://duckduckgo.com/Go', category: 'See also' },
+      ],
+    });
+    expect(answer.message).toBeUndefined();
+  });
+
+  it('should report clearly when no answer exists', () => {
+    const answer = parseInstantAnswer('asdkjhqwe', {
+      Type: '',
+      AbstractText: '',
+      Infobox: '',
+      RelatedTopics: [],
+    });
+
+    expect(answer.found).toBe(false);
+    expect(answer.type).toBe('none');
+    expect(answer.message).toContain('No instant answer available');
+  });
+});
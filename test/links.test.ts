@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { extractImages, extractLinks } from '../src/utils/links';
+
+describe('extractLinks', () => {
+  const $ = cheerio.load(`
+    <a href="#top">Top</a>
+    <a href="/docs/">Docs</a>
+    <a href="https://www.example.com/docs#install">Install docs</a>
+    <a href="/blog" rel="Next"><img src="/b.png" alt="Blog"></a>
+    <a href="https://github.com/example" rel="nofollow noopener">GitHub</a>
+    <a href="mailto:hi@example.com">Mail</a>
+    <a href="javascript:void(0)">Menu</a>
+  `);
+
+  it('should return unique links with text, rel and classification', () => {
+    expect(extractLinks($, 'https://example.com/start')).toEqual([
+      { url: 'https://example.com/docs/', text: 'Docs', rel: undefined, internal: true },
+      { url: 'https://example.com/blog', text: 'Blog', rel: 'next', internal: true },
+      {
+        url: 'https://github.com/example',
+        text: 'GitHub',
+        rel: 'nofollow noopener',
+        internal: false,
+      },
+    ]);
+  });
+
+  it('should keep only internal links when asked', () => {
+    expect(
+      extractLinks($, 'https://example.com/start', true).map((link) => link.url)
+    ).toEqual(['https://example.com/docs/', 'https://example.com/blog']);
+  });
+});
+
+describe('extractImages', () => {
+  it('should read lazy-load attributes, srcset and picture sources', () => {
+    const $ = cheerio.load(`
+      <img src="data:image/gif;base64,R0lGOD" data-src="/lazy.jpg" alt=" Lazy  cat " width="640" height="480">
+      <img src="/photo.jpg" srcset="/photo-1x.jpg 1x, /photo-2x.jpg 2x">
+      <picture>
+        <source srcset="/hero.webp 800w, /hero-large.webp 1600w" type="image/webp">
+        <img src="/hero.jpg" alt="Hero">
+      </picture>
+      <img src="/photo.jpg">
+      <img src="data:image/png;base64,iVBOR">
+    `);
+
+    expect(extractImages($, 'https://example.com/page')).toEqual([
+      {
+        src: 'https://example.com/lazy.jpg',
+        alt: 'Lazy cat',
+        width: 640,
+        height: 480,
+        srcset: undefined,
+      },
+      {
+        src: 'https://example.com/photo.jpg',
+        alt: undefined,
+        width: undefined,
+        height: undefined,
+        srcset:
+          'https://example.com/photo-1x.jpg 1x, https://example.com/photo-2x.jpg 2x',
+      },
+      {
+        src: 'https://example.com/hero.jpg',
+        alt: 'Hero',
+        width: undefined,
+        height: undefined,
+        srcset:
+          'https://example.com/hero.webp 800w, https://example.com/hero-large.webp 1600w',
+      },
+    ]);
+  });
+});
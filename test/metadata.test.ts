@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { extractMetadata, toIsoDate } from '../src/utils/metadata';
+
+function loadFixture(name: string) {
+  return cheerio.load(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+  );
+}
+
+describe('extractMetadata', () => {
+  it('should gather OpenGraph, Twitter, JSON-LD and microdata', () => {
+    const metadata = extractMetadata(
+      loadFixture('metadata-page.html'),
+      'https://devblog.example/articles/streams?ref=feed'
+    );
+
+    expect(metadata).toMatchObject({
+      description: 'A guide to Node.js streams',
+      author: 'Ada Lovelace',
+      publishDate: '2024-03-05T09:00:00.000Z',
+      modifiedDate: '2024-04-01',
+      canonicalUrl: 'https://devblog.example/articles/streams',
+      language: 'en-GB',
+      siteName: 'DevBlog',
+      openGraph: {
+        title: 'Streams explained',
+        image: ['https://devblog.example/a.png', 'https://devblog.example/b.png'],
+      },
+      twitter: { card: 'summary_large_image', site: '@devblog' },
+    });
+    expect(metadata.jsonLd).toHaveLength(1);
+    expect(metadata.microdata).toEqual([
+      {
+        type: 'https://schema.org/Product',
+        properties: {
+          name: ['Stream Kit'],
+          url: ['https://devblog.example/kit'],
+          offers: [
+            {
+              type: 'https://schema.org/Offer',
+              properties: { price: ['19.99'], priceCurrency: ['EUR'] },
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('should leave structured fields out when a page has none', () => {
+    const metadata = extractMetadata(
+      cheerio.load('<html><head><title>x</title></head></html>'),
+      'https://example.com'
+    );
+    expect(metadata.openGraph).toBeUndefined();
+    expect(metadata.jsonLd).toBeUndefined();
+    expect(metadata.microdata).toBeUndefined();
+    expect(metadata.canonicalUrl).toBeUndefined();
+  });
+});
+
+describe('toIsoDate', () => {
+  it('should normalize parseable dates and drop the rest', () => {
+    expect(toIsoDate('Tue, 05 Mar 2024 10:00:00 GMT')).toBe(
+      '2024-03-05T10:00:00.000Z'
+    );
+    expect(toIsoDate('2024-03-05')).toBe('2024-03-05');
+    expect(toIsoDate('last week')).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { extractPdf } from '../src/utils/pdf';
+
+function loadFixture(name: string) {
+  return new Uint8Array(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url))
+  );
+}
+
+describe('extractPdf', () => {
+  it('should extract text page by page with document metadata', async () => {
+    const pdf = await extractPdf(loadFixture('sample.pdf'));
+
+    expect(pdf).toEqual({
+      title: 'Node.js Streams Handbook',
+      author: 'Ada Lovelace',
+      createdDate: '2024-03-05T10:00:00.000Z',
+      modifiedDate: undefined,
+      pageCount: 2,
+      text: '## Page 1\n\nStreams move data in chunks.\n\n## Page 2\n\nBackpressure keeps memory bounded.',
+    });
+  });
+
+  it('should reject corrupt PDFs as non-retryable', async () => {
+    const corrupt = loadFixture('sample.pdf').slice(0, 200);
+
+    await expect(extractPdf(corrupt)).rejects.toMatchObject({
+      message: expect.stringMatching(/^Invalid PDF: /),
+      statusCode: 422,
+    });
+    await expect(
+      extractPdf(new TextEncoder().encode('not a pdf'))
+    ).rejects.toMatchObject({ statusCode: 422 });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import {
+  extractContentHtml,
+  extractReadableContent,
+} from '../src/utils/readability';
+
+function loadFixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+function textOf(html: string) {
+  return cheerio.load(html).text().replace(/\s+/g, ' ');
+}
+
+describe('extractReadableContent', () => {
+  it('should keep the article and strip page chrome', () => {
+    const text = textOf(extractReadableContent(loadFixture('article-page.html')));
+
+    expect(text).toContain('Understanding Backpressure in Node.js Streams');
+    expect(text).toContain('Backpressure is the mechanism');
+    expect(text).toContain('await pipeline(source, transform, destination);');
+    expect(text).toContain('eventually crash the process');
+
+    for (const boilerplate of [
+      'We use cookies',
+      'Tutorials',
+      'Ten tips for writing faster',
+      'Related articles',
+      'Subscribe to our newsletter',
+      'Copyright 2025',
+      'window.analytics',
+    ]) {
+      expect(text).not.toContain(boilerplate);
+    }
+  });
+
+  it('should fall back to the cleaned body when nothing scores', () => {
+    const text = textOf(
+      extractReadableContent(
+        '<html><body><nav>Menu</nav><div>Short note</div></body></html>'
+      )
+    );
+    expect(text).toContain('Short note');
+    expect(text).not.toContain('Menu');
+  });
+});
+
+describe('extractContentHtml', () => {
+  it('should skip a content container that holds little of the page in auto mode', () => {
+    const text = textOf(
+      extractContentHtml(cheerio.load(loadFixture('article-page.html')), 'auto')
+    );
+    // The tiny `.content` widget is ignored in favour of the whole body
+    expect(text).toContain('Popular tags');
+    expect(text).toContain('Backpressure is the mechanism');
+  });
+
+  it('should use a substantial main element in auto mode', () => {
+    const $ = cheerio.load(
+      '<body><nav>Home About</nav><main><h1>Title</h1><p>The main content of the page.</p></main></body>'
+    );
+    const text = textOf(extractContentHtml($, 'auto'));
+    expect(text).toContain('The main content of the page.');
+    expect(text).not.toContain('Home About');
+  });
+
+  it('should keep the whole body in full mode', () => {
+    const text = textOf(
+      extractContentHtml(cheerio.load(loadFixture('article-page.html')), 'full')
+    );
+    expect(text).toContain('Tutorials');
+    expect(text).toContain('Copyright 2025');
+  });
+});
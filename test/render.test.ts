@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { looksLikeJsShell } from '../src/utils/render';
+
+const article = `<p>${'Server-rendered paragraph with real content. '.repeat(10)}</p>`;
+
+describe('looksLikeJsShell', () => {
+  it('should flag a near-empty body that only loads scripts', () => {
+    expect(
+      looksLikeJsShell(
+        '<html><body><div id="app"></div><script src="/bundle.js"></script></body></html>'
+      )
+    ).toBe(true);
+  });
+
+  it('should flag short pages asking for JavaScript', () => {
+    const html = `<html><body><noscript>Please enable JavaScript to continue.</noscript><header>${article}</header><script src="/main.js"></script></body></html>`;
+    expect(looksLikeJsShell(html)).toBe(true);
+  });
+
+  it('should keep server-rendered pages with a noscript notice', () => {
+    const html = `<html><body><noscript>Please enable JavaScript.</noscript><main>${article.repeat(3)}</main><script src="/main.js"></script></body></html>`;
+    expect(looksLikeJsShell(html)).toBe(false);
+  });
+
+  it('should keep small pages without scripts', () => {
+    expect(
+      looksLikeJsShell(
+        '<html><body><h1>Example Domain</h1><p>For use in examples.</p></body></html>'
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRequestHeaders,
+  hasRequestBody,
+  redactHeaders,
+  redactSecrets,
+  requestOptionsSchema,
+} from '../src/utils/request';
+
+describe('buildRequestHeaders', () => {
+  it('should return the defaults when no options are given', () => {
+    expect(buildRequestHeaders(undefined, { Accept: 'text/html' })).toEqual({
+      Accept: 'text/html',
+    });
+  });
+
+  it('should let options replace defaults regardless of letter case', () => {
+    const headers = buildRequestHeaders(
+      {
+        userAgent: 'custom-agent/1.0',
+        headers: { accept: 'application/json', 'X-Trace': '1' },
+      },
+      { 'User-Agent': 'default', Accept: 'text/html' }
+    );
+
+    expect(headers).toEqual({
+      'User-Agent': 'custom-agent/1.0',
+      accept: 'application/json',
+      'X-Trace': '1',
+    });
+  });
+
+  it('should encode basic and bearer authentication', () => {
+    expect(
+      buildRequestHeaders({
+        auth: { type: 'basic', username: 'alice', password: 'wonderland' },
+      })
+    ).toEqual({
+      Authorization: `Basic ${Buffer.from('alice:wonderland').toString('base64')}`,
+    });
+    expect(
+      buildRequestHeaders({ auth: { type: 'bearer', token: 'abc.def' } })
+    ).toEqual({ Authorization: 'Bearer abc.def' });
+  });
+
+  it('should append cookies to an explicit Cookie header', () => {
+    const headers = buildRequestHeaders({
+      headers: { Cookie: 'consent=yes' },
+      cookies: { session: 's3cr3t', lang: 'en' },
+    });
+
+    expect(headers.Cookie).toBe('consent=yes; session=s3cr3t; lang=en');
+  });
+});
+
+describe('hasRequestBody', () => {
+  it('should only flag requests a browser cannot replay', () => {
+    expect(hasRequestBody(undefined)).toBe(false);
+    expect(hasRequestBody({ method: 'GET', headers: { A: 'b' } })).toBe(false);
+    expect(hasRequestBody({ method: 'POST' })).toBe(true);
+    expect(hasRequestBody({ body: 'q=1' })).toBe(true);
+  });
+});
+
+describe('redactHeaders', () => {
+  it('should hide credential headers and keep the rest', () => {
+    expect(
+      redactHeaders({
+        Authorization: 'Bearer abc',
+        Cookie: 'session=1',
+        'X-Api-Key': 'key',
+        'X-CSRF-Token': 'tok',
+        'Accept-Language': 'de-DE',
+      })
+    ).toEqual({
+      Authorization: '[REDACTED]',
+      Cookie: '[REDACTED]',
+      'X-Api-Key': '[REDACTED]',
+      'X-CSRF-Token': '[REDACTED]',
+      'Accept-Language': 'de-DE',
+    });
+  });
+});
+
+describe('redactSecrets', () => {
+  it('should replace credentials echoed anywhere in the output', () => {
+    const options = requestOptionsSchema.parse({
+      cookies: { session: 'cookie-value-123' },
+      headers: { 'X-Api-Key': 'key"with-quote' },
+      auth: { type: 'bearer', token: 'token-xyz' },
+    });
+    const output = JSON.stringify({
+      content: 'Your token is token-xyz and your session cookie-value-123',
+      echoed: 'X-Api-Key: key"with-quote',
+    });
+
+    const redacted = redactSecrets(output, options);
+
+    expect(redacted).not.toContain('token-xyz');
+    expect(redacted).not.toContain('cookie-value-123');
+    expect(redacted).not.toContain('with-quote');
+    expect(JSON.parse(redacted).content).toBe(
+      'Your token is [REDACTED] and your session [REDACTED]'
+    );
+  });
+
+  it('should leave the output alone without request options', () => {
+    expect(redactSecrets('token-xyz', undefined)).toBe('token-xyz');
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  clearRobotsCache,
+  getRobotsRules,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  robotsBlacklist,
+} from '../src/utils/robots';
+import {
+  isBlockedByRobots,
+  loadPolitenessConfig,
+  pacedHostCount,
+  politeRequest,
+} from '../src/utils/politeness';
+import { withRetry } from '../src/utils/retry';
+
+const { fetchMock } = vi.hoisted(() => ({ fetchMock: vi.fn() }));
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+const robotsTxt = `
+# Example
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Crawl-delay: 2
+
+User-agent: mcp-web-tools
+User-agent: otherbot
+Disallow: /search
+Disallow: /*.json$
+Allow: /search/help
+Crawl-delay: 1
+`;
+
+function respond(status: number, body = '') {
+  return { ok: status < 400, status, text: async () => body };
+}
+
+describe('parseRobotsTxt', () => {
+  it('should use the group naming the user agent, else the * group', () => {
+    const ours = parseRobotsTxt(robotsTxt, 'MCP-Web-Tools/1.0');
+    expect(ours.crawlDelay).toBe(1);
+    expect(isAllowedByRobots(ours, 'https://a.com/private/x')).toBe(true);
+    expect(isAllowedByRobots(ours, 'https://a.com/search?q=1')).toBe(false);
+    expect(isAllowedByRobots(ours, 'https://a.com/search/help')).toBe(true);
+    expect(isAllowedByRobots(ours, 'https://a.com/data.json')).toBe(false);
+    expect(isAllowedByRobots(ours, 'https://a.com/data.json?x')).toBe(true);
+
+    const others = parseRobotsTxt(robotsTxt, 'somebot');
+    expect(others.crawlDelay).toBe(2);
+    expect(isAllowedByRobots(others, 'https://a.com/private/x')).toBe(false);
+    expect(isAllowedByRobots(others, 'https://a.com/private/press/1')).toBe(true);
+    expect(isAllowedByRobots(others, 'https://a.com/robots.txt')).toBe(true);
+  });
+});
+
+describe('robotsBlacklist', () => {
+  it('should turn Disallow rules no Allow rule can reopen into URL patterns', () => {
+    const rules = parseRobotsTxt(
+      'User-agent: *\nDisallow: /admin/\nDisallow: /search\nAllow: /search/help\nDisallow: /tmp/*.bak$',
+      'mcp-web-tools'
+    );
+    const patterns = robotsBlacklist(rules, 'https://a.com');
+
+    // /search is left to isAllowedByRobots because of Allow: /search/help
+    expect(patterns).toEqual([
+      '^https://a\\.com/admin/',
+      '^https://a\\.com/tmp/.*\\.bak$',
+    ]);
+    expect(new RegExp(patterns[1]).test('https://a.com/tmp/x/y.bak')).toBe(true);
+    expect(new RegExp(patterns[1]).test('https://a.com/tmp/y.bak?x')).toBe(false);
+  });
+});
+
+describe('getRobotsRules', () => {
+  beforeEach(() => {
+    clearRobotsCache();
+    fetchMock.mockReset();
+  });
+
+  it('should fetch robots.txt once per origin', async () => {
+    fetchMock.mockResolvedValue(respond(200, robotsTxt));
+
+    await getRobotsRules('https://a.com/one', 'mcp-web-tools');
+    const rules = await getRobotsRules('https://a.com/two', 'mcp-web-tools');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://a.com/robots.txt');
+    expect(isAllowedByRobots(rules, 'https://a.com/search')).toBe(false);
+  });
+
+  it('should allow everything without a robots.txt and fail when it cannot be read', async () => {
+    fetchMock.mockResolvedValueOnce(respond(404));
+    const missing = await getRobotsRules('https://a.com/', 'mcp-web-tools');
+    expect(isAllowedByRobots(missing, 'https://a.com/anything')).toBe(true);
+
+    fetchMock.mockResolvedValue(respond(503));
+    await expect(
+      getRobotsRules('https://b.com/', 'mcp-web-tools')
+    ).rejects.toMatchObject({ robotsUnavailable: true });
+
+    // Server errors are not cached
+    await expect(
+      getRobotsRules('https://b.com/', 'mcp-web-tools')
+    ).rejects.toThrow('Could not read https://b.com/robots.txt: HTTP 503');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('politeRequest', () => {
+  beforeEach(() => {
+    clearRobotsCache();
+    fetchMock.mockReset();
+  });
+
+  it('should refuse disallowed URLs with a blockedByRobots error', async () => {
+    fetchMock.mockResolvedValue(respond(200, robotsTxt));
+    const config = { ...loadPolitenessConfig({}), hostDelay: 0 };
+    const request = vi.fn().mockResolvedValue('ok');
+
+    await expect(
+      politeRequest('https://c.com/search?q=x', config, request)
+    ).rejects.toMatchObject({ blockedByRobots: true, statusCode: 403 });
+    expect(request).not.toHaveBeenCalled();
+
+    await expect(
+      politeRequest('https://c.com/docs', { ...config, respectRobotsTxt: false }, request)
+    ).resolves.toBe('ok');
+  });
+
+  it('should report an unreachable host as a retryable error, not a block', async () => {
+    const dnsError = Object.assign(
+      new Error('getaddrinfo ENOTFOUND nonexistent-host-zzz.invalid'),
+      { code: 'ENOTFOUND' }
+    );
+    fetchMock.mockRejectedValue(dnsError);
+    const config = { ...loadPolitenessConfig({}), hostDelay: 0 };
+    const request = vi.fn().mockResolvedValue('ok');
+
+    const error = await politeRequest(
+      'https://nonexistent-host-zzz.invalid/page',
+      config,
+      request
+    ).catch((e: unknown) => e);
+
+    expect(isBlockedByRobots(error)).toBe(false);
+    expect(error).not.toHaveProperty('statusCode');
+    expect((error as Error).message).toContain('ENOTFOUND');
+    expect((error as Error).cause).toBe(dnsError);
+    expect(request).not.toHaveBeenCalled();
+
+    // withRetry tries again, and reaches the page once robots.txt answers
+    fetchMock.mockReset();
+    fetchMock
+      .mockRejectedValueOnce(dnsError)
+      .mockResolvedValueOnce(respond(404));
+    await expect(
+      withRetry(
+        () => politeRequest('https://flaky.example/page', config, request),
+        2,
+        1
+      )
+    ).resolves.toBe('ok');
+  });
+
+  it('should space requests to one host by the minimum delay', async () => {
+    const config = loadPolitenessConfig({
+      MCP_RESPECT_ROBOTS_TXT: 'false',
+      MCP_HOST_DELAY_MS: '50',
+    });
+    const starts: number[] = [];
+    const request = async () => {
+      starts.push(Date.now());
+    };
+
+    await Promise.all([
+      politeRequest('https://d.com/1', config, request),
+      politeRequest('https://d.com/2', config, request),
+    ]);
+
+    expect(config).toMatchObject({ respectRobotsTxt: false, hostConcurrency: 2, hostDelay: 50 });
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should forget hosts once they are idle and their delay has passed', async () => {
+    const config = loadPolitenessConfig({
+      MCP_RESPECT_ROBOTS_TXT: 'false',
+      MCP_HOST_DELAY_MS: '30',
+    });
+
+    await Promise.all([
+      politeRequest('https://e.com/1', config, async () => 'ok'),
+      politeRequest('https://f.com/1', config, async () => 'ok'),
+    ]);
+    expect(pacedHostCount()).toBeGreaterThanOrEqual(2);
+
+    // Earlier tests' hosts wait out their delays too
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(pacedHostCount()).toBe(0);
+
+    // Without a delay nothing is held once the request settles
+    await politeRequest('https://g.com/1', { ...config, hostDelay: 0 }, async () => 'ok');
+    expect(pacedHostCount()).toBe(0);
+  });
+});
@@ -0,0 +1,421 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  loadSearchConfig,
+  resolveSearchProviders,
+} from '../src/providers/index';
+import { buildSearchUrl } from '../src/providers/duckduckgo';
+import { normalizeFilters } from '../src/providers/filters';
+import { compileQuery } from '../src/providers/query';
+import {
+  performVerticalSearch,
+  performWebSearch,
+} from '../src/tools/web-search';
+import { DEFAULT_USER_AGENT } from '../src/utils/request';
+
+const { fetchMock, Website } = vi.hoisted(() => {
+  return {
+    fetchMock: vi.fn(),
+    Website: vi.fn(),
+  };
+});
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+vi.mock('@spider-rs/spider-rs', () => ({ Website }));
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: vi.fn().mockResolvedValue(body),
+  };
+}
+
+describe('search providers', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    Website.mockReset();
+  });
+
+  it('should read provider order and credentials from the environment', () => {
+    const config = loadSearchConfig({
+      MCP_SEARCH_PROVIDERS: 'brave, duckduckgo, unknown',
+      BRAVE_SEARCH_API_KEY: 'key',
+    });
+
+    expect(config.providers).toEqual(['brave', 'duckduckgo']);
+    expect(config.braveApiKey).toBe('key');
+    expect(loadSearchConfig({}).providers).toEqual([
+      'duckduckgo',
+      'searxng',
+      'brave',
+      'bing',
+    ]);
+  });
+
+  it('should skip unconfigured providers and put the preferred one first', () => {
+    const config = loadSearchConfig({ SEARXNG_URL: 'https://searx.local' });
+
+    expect(resolveSearchProviders(config).map((p) => p.name)).toEqual([
+      'duckduckgo',
+      'searxng',
+    ]);
+    expect(
+      resolveSearchProviders(config, 'searxng').map((p) => p.name)
+    ).toEqual(['searxng', 'duckduckgo']);
+    expect(() => resolveSearchProviders(config, 'bing')).toThrow(
+      expect.objectContaining({
+        message: 'Search provider "bing" is not configured',
+        statusCode: 400,
+      })
+    );
+    expect(() =>
+      resolveSearchProviders(loadSearchConfig({ MCP_SEARCH_PROVIDERS: 'brave' }))
+    ).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+
+  it('should map SearXNG results onto the SearchResult shape', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ results: [] }));
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        results: [
+          {
+            title: ' SearXNG result ',
+            url: 'https://docs.example.com/page',
+            content: 'Result summary',
+          },
+        ],
+      })
+    );
+
+    const response = await performWebSearch(
+      { query: 'test', maxResults: 5 } as never,
+      loadSearchConfig({
+        MCP_SEARCH_PROVIDERS: 'searxng',
+        SEARXNG_URL: 'https://searx.local',
+      })
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://searx.local/search?q=test&format=json'
+    );
+    expect(response).toEqual({
+      provider: 'searxng',
+      searchQuery: 'test',
+      filters: { applied: {}, ignored: [] },
+      results: [
+        {
+          title: 'SearXNG result',
+          url: 'https://docs.example.com/page',
+          snippet: 'Result summary',
+          source: 'docs.example.com',
+          position: 1,
+        },
+      ],
+    });
+  });
+
+  it('should report which filters each provider applied', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        results: [{ title: 'Result', url: 'https://example.de/' }],
+      })
+    );
+
+    const response = await performWebSearch(
+      {
+        query: 'test',
+        maxResults: 5,
+        region: 'de-de',
+        dateFrom: '2024-01-01',
+      } as never,
+      loadSearchConfig({
+        MCP_SEARCH_PROVIDERS: 'searxng',
+        SEARXNG_URL: 'https://searx.local',
+      })
+    );
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get('language')).toBe('de-DE');
+    expect(response.filters).toEqual({
+      applied: { region: 'de-de' },
+      ignored: ['dateFrom'],
+    });
+  });
+
+  it('should map region and dates onto DuckDuckGo kl and df parameters', () => {
+    expect(
+      buildSearchUrl('https://duckduckgo.com/html/', 'q', {
+        region: 'uk-en',
+        time: 'w',
+      })
+    ).toBe('https://duckduckgo.com/html/?q=q&kl=uk-en&df=w');
+    expect(
+      buildSearchUrl('https://duckduckgo.com/html/', 'q', {
+        dateFrom: '2024-01-01',
+        dateTo: '2024-02-01',
+      })
+    ).toBe('https://duckduckgo.com/html/?q=q&df=2024-01-01..2024-02-01');
+  });
+
+  it('should reject date ranges that end before they start', async () => {
+    expect(() =>
+      normalizeFilters({ dateFrom: '2024-03-01', dateTo: '2024-02-01' })
+    ).toThrow(
+      expect.objectContaining({
+        message: 'dateFrom (2024-03-01) is after dateTo (2024-02-01)',
+        statusCode: 400,
+      })
+    );
+    expect(
+      normalizeFilters({ dateFrom: '2024-02-01', dateTo: '2024-02-01' })
+    ).toEqual({ dateFrom: '2024-02-01', dateTo: '2024-02-01' });
+
+    await expect(
+      performWebSearch(
+        { query: 'test', dateFrom: '2024-03-01', dateTo: '2024-02-01' } as never,
+        loadSearchConfig({})
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the next provider when one fails', async () => {
+    Website.mockImplementation(() => ({
+      withChromeIntercept: vi.fn().mockReturnThis(),
+      withBudget: vi.fn().mockReturnThis(),
+      build: vi.fn().mockReturnThis(),
+      withHeaders: vi.fn(),
+      scrape: vi.fn().mockRejectedValue(new Error('Blocked')),
+      getPages: vi.fn().mockReturnValue([]),
+    }));
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes('duckduckgo.com')
+        ? { ok: false, status: 403, url, text: async () => 'Forbidden' }
+        : jsonResponse({
+            web: {
+              results: [
+                {
+                  title: 'Brave result',
+                  url: 'https://example.com/',
+                  description: 'From Brave',
+                },
+              ],
+            },
+          })
+    );
+
+    const response = await performWebSearch(
+      { query: 'test', maxResults: 5 } as never,
+      loadSearchConfig({
+        MCP_SEARCH_PROVIDERS: 'duckduckgo,brave',
+        BRAVE_SEARCH_API_KEY: 'key',
+      })
+    );
+
+    expect(response.provider).toBe('brave');
+    expect(response.results[0].snippet).toBe('From Brave');
+    // DuckDuckGo is tried over plain HTTP before its browser fallback
+    expect(Website).toHaveBeenCalled();
+    expect(
+      fetchMock.mock.calls.at(-1)![1].headers['X-Subscription-Token']
+    ).toBe('key');
+  });
+
+  it('should not mark a search retryable when every provider failed with a fatal 4xx', async () => {
+    const config = loadSearchConfig({
+      MCP_SEARCH_PROVIDERS: 'brave,searxng',
+      BRAVE_SEARCH_API_KEY: 'bad-key',
+      SEARXNG_URL: 'https://searx.local',
+    });
+    const failWith = (brave: number, searxng: number) =>
+      fetchMock.mockImplementation(async (url: string) => {
+        const status = url.includes('searx.local') ? searxng : brave;
+        return { ok: false, status, statusText: 'Error' };
+      });
+
+    failWith(401, 403);
+    await expect(
+      performWebSearch({ query: 'test', maxResults: 5 } as never, config)
+    ).rejects.toMatchObject({ statusCode: 401 });
+
+    // A server error may clear up, so the search stays retryable
+    failWith(401, 503);
+    const error = await performWebSearch(
+      { query: 'test', maxResults: 5 } as never,
+      config
+    ).catch((e: unknown) => e);
+    expect(error).not.toHaveProperty('statusCode');
+  });
+
+  it('should read DuckDuckGo results over plain HTTP before starting a browser', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      url: 'https://duckduckgo.com/html/?q=test',
+      text: async () =>
+        '<div class="result"><a class="result__a" href="https://example.com/">Example</a><a class="result__snippet">Snippet</a></div>',
+    });
+
+    const response = await performWebSearch(
+      { query: 'test', maxResults: 5 } as never,
+      loadSearchConfig({ MCP_SEARCH_PROVIDERS: 'duckduckgo' })
+    );
+
+    expect(response.provider).toBe('duckduckgo');
+    expect(response.results[0]).toMatchObject({
+      url: 'https://example.com/',
+      snippet: 'Snippet',
+    });
+    expect(Website).not.toHaveBeenCalled();
+  });
+
+  it('should send the browser headers and request options with DuckDuckGo vertical searches', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        url: 'https://duckduckgo.com/?q=rust',
+        text: async () => '<script>vqd="4-123456789"</script>',
+      })
+      .mockResolvedValueOnce(
+        jsonResponse({
+          results: [
+            {
+              title: 'Rust 2.0',
+              url: 'https://news.example/rust',
+              source: 'News',
+              date: 1735689600,
+            },
+          ],
+        })
+      );
+
+    await performVerticalSearch(
+      {
+        query: 'rust',
+        maxResults: 5,
+        request: { headers: { 'Accept-Language': 'de-DE' } },
+      } as never,
+      'news',
+      loadSearchConfig({ MCP_SEARCH_PROVIDERS: 'duckduckgo' })
+    );
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toContain('https://duckduckgo.com/news.js');
+    expect(init.headers).toMatchObject({
+      'User-Agent': DEFAULT_USER_AGENT,
+      Accept: 'application/json',
+      'Accept-Language': 'de-DE',
+      Referer: 'https://duckduckgo.com/',
+    });
+  });
+
+  it('should compile structured operators into the provider query', () => {
+    expect(
+      compileQuery(' release notes ', {
+        exactPhrase: 'breaking "changes"',
+        excludeTerms: ['beta', 'release candidate'],
+        includeDomains: ['https://www.GitHub.com/nodejs', 'nodejs.org'],
+        excludeDomains: ['medium.com'],
+        fileType: '.PDF',
+      })
+    ).toBe(
+      'release notes "breaking changes" -beta -"release candidate" site:github.com OR site:nodejs.org -site:medium.com filetype:pdf'
+    );
+  });
+
+  it('should drop results from excluded domains even if the provider ignores site:', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ results: [] }));
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        results: [
+          { title: 'Spam', url: 'https://blog.medium.com/post' },
+          { title: 'Docs', url: 'https://nodejs.org/api' },
+          { title: 'Other', url: 'https://example.com/' },
+        ],
+      })
+    );
+
+    const response = await performWebSearch(
+      {
+        query: 'streams',
+        maxResults: 5,
+        includeDomains: ['nodejs.org', 'medium.com'],
+        excludeDomains: ['medium.com'],
+      } as never,
+      loadSearchConfig({
+        MCP_SEARCH_PROVIDERS: 'searxng',
+        SEARXNG_URL: 'https://searx.local',
+      })
+    );
+
+    expect(response.searchQuery).toBe(
+      'streams site:nodejs.org OR site:medium.com -site:medium.com'
+    );
+    expect(response.results.map((r) => r.url)).toEqual([
+      'https://nodejs.org/api',
+    ]);
+  });
+
+  it('should paginate, de-duplicate and resume from the returned cursor', async () => {
+    const pages: Record<string, string[]> = {
+      '1': ['https://a.com/', 'https://www.a.com', 'https://b.com/'],
+      '2': ['https://c.com/', 'https://d.com/'],
+      // Repeats of earlier pages are dropped after resuming too
+      '3': ['https://b.com/', 'https://e.com/', 'https://www.a.com/'],
+    };
+    fetchMock.mockImplementation((url: string) => {
+      const pageno = new URL(url).searchParams.get('pageno') ?? '1';
+      return Promise.resolve(
+        jsonResponse({
+          results: (pages[pageno] ?? []).map((u) => ({ title: u, url: u })),
+        })
+      );
+    });
+    const config = loadSearchConfig({
+      MCP_SEARCH_PROVIDERS: 'searxng',
+      SEARXNG_URL: 'https://searx.local',
+    });
+
+    const first = await performWebSearch(
+      { query: 'test', maxResults: 3 } as never,
+      config
+    );
+    expect(first.results.map((r) => [r.url, r.position])).toEqual([
+      ['https://a.com/', 1],
+      ['https://b.com/', 2],
+      ['https://c.com/', 3],
+    ]);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await performWebSearch(
+      { query: 'test', maxResults: 3, cursor: first.nextCursor } as never,
+      config
+    );
+    expect(second.results.map((r) => [r.url, r.position])).toEqual([
+      ['https://d.com/', 4],
+      ['https://e.com/', 5],
+    ]);
+    expect(second.nextCursor).toBeUndefined();
+
+    await expect(
+      performWebSearch(
+        { query: 'other', maxResults: 3, cursor: first.nextCursor } as never,
+        config
+      )
+    ).rejects.toThrow('different query');
+
+    await expect(
+      performWebSearch(
+        {
+          query: 'test',
+          maxResults: 3,
+          region: 'de-de',
+          cursor: first.nextCursor,
+        } as never,
+        config
+      )
+    ).rejects.toThrow('different filters');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseSuggestions } from '../src/tools/search-suggestions';
+
+describe('parseSuggestions', () => {
+  it('should read the list format and drop the query itself', () => {
+    expect(
+      parseSuggestions(
+        [
+          'rust async',
+          ['rust async', 'rust async await', 'Rust Async Await', 'rust async book'],
+        ],
+        'rust async'
+      )
+    ).toEqual(['rust async await', 'rust async book']);
+  });
+
+  it('should read the legacy phrase format and honour the limit', () => {
+    expect(
+      parseSuggestions(
+        [{ phrase: 'tokio' }, { phrase: 'tokio runtime' }, {}],
+        'tok',
+        1
+      )
+    ).toEqual(['tokio']);
+    expect(parseSuggestions({}, 'tok')).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { extractTables, renderGfmTable } from '../src/utils/tables';
+
+const PRICING = `
+  <table>
+    <caption>Plans</caption>
+    <thead>
+      <tr><th rowspan="2">Plan</th><th colspan="2">Price</th></tr>
+      <tr><th>Monthly</th><th>Yearly</th></tr>
+    </thead>
+    <tbody>
+      <tr><td>Free</td><td colspan="2">$0</td></tr>
+      <tr><td rowspan="2">Pro</td><td>$10</td><td>$100</td></tr>
+      <tr><td>$12 | EU</td><td>$120</td></tr>
+    </tbody>
+  </table>`;
+
+describe('extractTables', () => {
+  it('should expand colspan and rowspan into a rectangular grid', () => {
+    expect(extractTables(PRICING)).toEqual([
+      {
+        caption: 'Plans',
+        headers: ['Plan', 'Price / Monthly', 'Price / Yearly'],
+        rows: [
+          ['Free', '$0', '$0'],
+          ['Pro', '$10', '$100'],
+          ['Pro', '$12 | EU', '$120'],
+        ],
+      },
+    ]);
+  });
+
+  it('should treat tables without header cells as data and skip empty ones', () => {
+    const tables = extractTables(`
+      <table><tr><td>a</td><td>1</td></tr><tr><td>b</td></tr></table>
+      <table><tr><td></td></tr></table>
+      <table></table>`);
+
+    expect(tables[0]).toEqual({
+      caption: undefined,
+      headers: [],
+      rows: [
+        ['a', '1'],
+        ['b', ''],
+      ],
+    });
+    expect(tables).toHaveLength(1);
+  });
+
+  it('should keep nested tables separate', () => {
+    const [outer, inner] = extractTables(
+      '<table><tr><th>Key</th></tr><tr><td><table><tr><td>x</td></tr></table></td></tr></table>'
+    );
+    expect(outer.rows).toEqual([['x']]);
+    expect(inner.rows).toEqual([['x']]);
+  });
+});
+
+describe('renderGfmTable', () => {
+  it('should render a pipe table with escaped cells', () => {
+    expect(renderGfmTable(extractTables(PRICING)[0])).toBe(
+      [
+        '| Plan | Price / Monthly | Price / Yearly |',
+        '| --- | --- | --- |',
+        '| Free | $0 | $0 |',
+        '| Pro | $10 | $100 |',
+        '| Pro | $12 \\| EU | $120 |',
+      ].join('\n')
+    );
+  });
+
+  it('should promote the first row when there are no headers', () => {
+    expect(
+      renderGfmTable({ headers: [], rows: [['a', 'b'], ['1', '2']] })
+    ).toBe('| a | b |\n| --- | --- |\n| 1 | 2 |');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { crawlSite, isCrawlTarget, webCrawlTool } from '../src/tools/web-crawl';
+import { loadPolitenessConfig } from '../src/utils/politeness';
+
+const { Website, website } = vi.hoisted(() => {
+  const page = (url: string, body: string, statusCode = 200) => ({
+    url,
+    statusCode,
+    content: `<html><head><title>${body}</title></head><body><main><h1>${body}</h1><p>About ${body}.</p></main></body></html>`,
+  });
+  const pages = [
+    page('https://docs.example/', 'Home'),
+    page('https://docs.example/docs/intro', 'Intro'),
+    page('https://docs.example/docs/intro#setup', 'Intro'),
+    page('https://docs.example/docs/missing', 'Missing', 404),
+    page('https://docs.example/blog/news', 'News'),
+    page('https://docs.example/docs/api', 'API'),
+    page('https://docs.example/docs/cli', 'CLI'),
+  ];
+
+  const website = {
+    withDepth: vi.fn().mockReturnThis(),
+    withBudget: vi.fn().mockReturnThis(),
+    withSubdomains: vi.fn().mockReturnThis(),
+    withSitemap: vi.fn().mockReturnThis(),
+    withRespectRobotsTxt: vi.fn().mockReturnThis(),
+    withDelay: vi.fn().mockReturnThis(),
+    withBlacklistUrl: vi.fn().mockReturnThis(),
+    withHeaders: vi.fn().mockReturnThis(),
+    build: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockResolvedValue(true),
+    crawl: vi.fn(async (onPage: (error: Error | null, page: unknown) => void) => {
+      for (const crawled of pages) onPage(null, crawled);
+    }),
+  };
+
+  return { Website: vi.fn().mockImplementation(() => website), website };
+});
+
+vi.mock('@spider-rs/spider-rs', () => ({ Website }));
+
+const { fetchMock } = vi.hoisted(() => ({ fetchMock: vi.fn() }));
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+// Robots.txt and host pacing have their own tests
+vi.stubEnv('MCP_RESPECT_ROBOTS_TXT', 'false');
+vi.stubEnv('MCP_HOST_DELAY_MS', '0');
+
+describe('isCrawlTarget', () => {
+  it('should apply the domain restriction and URL globs', () => {
+    const input = { url: 'https://www.docs.example/', include: ['/docs/**'], exclude: ['**/*.zip'] };
+
+    expect(isCrawlTarget('https://docs.example/docs/a/b', input)).toBe(true);
+    expect(isCrawlTarget('https://docs.example/docs/file.zip', input)).toBe(false);
+    expect(isCrawlTarget('https://docs.example/blog/a', input)).toBe(false);
+    expect(isCrawlTarget('https://api.docs.example/docs/a', input)).toBe(false);
+    expect(isCrawlTarget('https://api.docs.example/docs/a', { ...input, sameDomain: false })).toBe(true);
+    expect(isCrawlTarget('https://other.example/docs/a', { ...input, sameDomain: false })).toBe(false);
+  });
+});
+
+describe('webCrawlTool', () => {
+  it('should return matching pages in the web_page shape with a summary', async () => {
+    const result = await webCrawlTool({
+      url: 'https://docs.example/',
+      maxDepth: 3,
+      maxPages: 3,
+      include: ['/docs/**'],
+      sitemap: true,
+      maxLength: 1000,
+    } as never);
+    const { summary, pages } = JSON.parse(result.content[0].text);
+
+    expect(website.withDepth).toHaveBeenCalledWith(3);
+    expect(website.withBudget).toHaveBeenCalledWith({ '*': 15 });
+    expect(website.withSitemap).toHaveBeenCalledWith('https://docs.example/sitemap.xml');
+    expect(website.stop).toHaveBeenCalled();
+
+    expect(pages.map((page: { url: string }) => page.url)).toEqual([
+      'https://docs.example/docs/intro',
+      'https://docs.example/docs/api',
+    ]);
+    expect(pages[0]).toMatchObject({
+      title: 'Intro',
+      contentType: 'text/html',
+      content: '# Intro\n\nAbout Intro.',
+      hasMore: false,
+    });
+    expect(summary).toMatchObject({
+      startUrl: 'https://docs.example/',
+      pagesCrawled: 7,
+      pagesReturned: 2,
+      truncated: true,
+      skipped: [{ url: 'https://docs.example/docs/missing', reason: 'HTTP 404' }],
+    });
+  });
+
+  it('should only report truncation when more pages matched than maxPages', async () => {
+    website.withBudget.mockClear();
+
+    const exact = await crawlSite({ url: 'https://docs.example/', maxDepth: 2, maxPages: 6, maxLength: 1000 } as never);
+    expect(website.withBudget).toHaveBeenCalledWith({ '*': 7 });
+    expect(exact.summary).toMatchObject({ pagesCrawled: 7, truncated: false });
+
+    const over = await crawlSite({ url: 'https://docs.example/', maxDepth: 2, maxPages: 5, maxLength: 1000 } as never);
+    expect(over.summary.truncated).toBe(true);
+  });
+
+  it('should return only the start page for a depth of 0', async () => {
+    website.withBudget.mockClear();
+    website.withSitemap.mockClear();
+
+    const result = await webCrawlTool({
+      url: 'https://docs.example/',
+      maxDepth: 0,
+      maxPages: 5,
+      sitemap: true,
+      maxLength: 1000,
+    } as never);
+    const { summary, pages } = JSON.parse(result.content[0].text);
+
+    expect(website.withBudget).toHaveBeenCalledWith({ '*': 1 });
+    expect(website.withSitemap).not.toHaveBeenCalled();
+    expect(pages).toHaveLength(1);
+    expect(pages[0].url).toBe('https://docs.example/');
+    expect(summary).toMatchObject({ pagesCrawled: 1, pagesReturned: 1 });
+  });
+
+  it('should blacklist disallowed paths before crawling and pace the host', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () =>
+        'User-agent: mcp-web-tools\nDisallow: /blog/\nDisallow: /docs/\nAllow: /docs/intro\nCrawl-delay: 0.5',
+    });
+    website.withBlacklistUrl.mockClear();
+    website.withDelay.mockClear();
+
+    const { summary, pages } = await crawlSite(
+      { url: 'https://docs.example/', maxDepth: 2, maxPages: 10, maxLength: 1000 } as never,
+      { ...loadPolitenessConfig({}), hostDelay: 0 }
+    );
+
+    // /docs/ can be reopened by the longer Allow rule, so it is checked
+    // after fetching instead
+    expect(website.withBlacklistUrl).toHaveBeenCalledWith([
+      '^https://docs\\.example/blog/',
+    ]);
+    expect(website.withDelay).toHaveBeenCalledWith(500);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://docs.example/robots.txt',
+      expect.anything()
+    );
+    expect(pages.map((page) => page.url)).toEqual([
+      'https://docs.example/',
+      'https://docs.example/docs/intro',
+    ]);
+    expect(summary.skipped).toContainEqual({
+      url: 'https://docs.example/docs/api',
+      reason: 'Blocked by robots.txt',
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { webFeedTool } from '../src/tools/web-feed';
+
+const { fetchMock } = vi.hoisted(() => ({ fetchMock: vi.fn() }));
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+// Robots.txt and host pacing have their own tests
+vi.stubEnv('MCP_RESPECT_ROBOTS_TXT', 'false');
+vi.stubEnv('MCP_HOST_DELAY_MS', '0');
+
+function respond(url: string, body: string) {
+  return { ok: true, status: 200, statusText: 'OK', url, text: async () => body };
+}
+
+describe('webFeedTool', () => {
+  it('should discover the feed of a page and filter its items by date', async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url === 'https://blog.example/'
+        ? respond(
+            url,
+            '<html><head><link rel="alternate" type="application/atom+xml" href="/atom.xml"></head></html>'
+          )
+        : respond(
+            url,
+            `<feed xmlns="http://www.w3.org/2005/Atom"><title>Blog</title>
+              <entry><title>New</title><link href="/new"/><published>2024-03-05T10:00:00Z</published></entry>
+              <entry><title>Old</title><link href="/old"/><published>2024-01-05T10:00:00Z</published></entry>
+            </feed>`
+          )
+    );
+
+    const result = await webFeedTool({
+      urls: ['https://blog.example/'],
+      since: '2024-03-01',
+      maxItems: 20,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    });
+    const [feed] = JSON.parse(result.content[0].text);
+
+    expect(feed.error).toBeUndefined();
+    expect(feed.feedUrl).toBe('https://blog.example/atom.xml');
+    expect(feed.discovered).toEqual([
+      { url: 'https://blog.example/atom.xml', type: 'application/atom+xml' },
+    ]);
+    expect(feed.totalItems).toBe(2);
+    expect(feed.items).toEqual([
+      {
+        title: 'New',
+        link: 'https://blog.example/new',
+        published: '2024-03-05T10:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should report pages without a feed', async () => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(
+      respond('https://plain.example/', '<html><head></head></html>')
+    );
+
+    const result = await webFeedTool({
+      urls: ['https://plain.example/'],
+      maxItems: 20,
+      maxRetries: 3,
+      retryDelay: 1,
+      concurrency: 5,
+    });
+    const [feed] = JSON.parse(result.content[0].text);
+
+    expect(feed.error).toBe('No RSS, Atom or JSON feed found at https://plain.example/');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { webPageDiffTool } from '../src/tools/web-page-diff';
+import { loadSnapshotConfig, normalizeSnapshot } from '../src/utils/snapshots';
+
+const { fetchWebPage } = vi.hoisted(() => ({ fetchWebPage: vi.fn() }));
+
+vi.mock('../src/tools/web-page', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/tools/web-page')>()),
+  fetchWebPage,
+}));
+
+const politeness = {
+  respectRobotsTxt: false,
+  userAgent: 'mcp-web-tools',
+  hostConcurrency: 0,
+  hostDelay: 0,
+};
+
+function servePage(content: string) {
+  fetchWebPage.mockResolvedValue({ title: 'Pricing', content });
+}
+
+describe('webPageDiffTool', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'snapshots-'));
+    fetchWebPage.mockReset();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function check(urls: string[], selector?: string, options: object = {}) {
+    const config = loadSnapshotConfig({
+      MCP_SNAPSHOT_DIR: directory,
+      MCP_SNAPSHOT_RETENTION: '2',
+    });
+    const result = await webPageDiffTool(
+      { urls, selector, ...options, contextLines: 1, maxRetries: 1, retryDelay: 1 } as never,
+      config,
+      politeness
+    );
+    return JSON.parse(result.content[0].text);
+  }
+
+  it('should store a baseline, then report unchanged and changed content', async () => {
+    servePage('# Pricing\n\n## Pro\n\n$10 per month\n\n## Team\n\n$20 per month');
+    const [first] = await check(['https://example.com/pricing']);
+    expect(first).toMatchObject({ changed: false, firstSnapshot: true });
+    expect(fetchWebPage.mock.calls[0][0]).toMatchObject({
+      url: 'https://example.com/pricing',
+      format: 'markdown',
+    });
+
+    // Whitespace-only differences are normalized away
+    servePage('# Pricing  \r\n\n\n\n## Pro\n\n$10 per month\n\n## Team\n\n$20 per month\n');
+    const [same] = await check(['https://example.com/pricing']);
+    expect(same).toMatchObject({ changed: false, firstSnapshot: false });
+    expect(same.diff).toBeUndefined();
+
+    servePage('# Pricing\n\n## Pro\n\n$12 per month\n\n## Team\n\n$20 per month\n\n## Enterprise\n\nContact us');
+    const [changed] = await check(['https://www.example.com/pricing#pro']);
+    expect(changed.changed).toBe(true);
+    expect(changed.previousCheckedAt).toEqual(expect.any(String));
+    expect(changed.removed).toEqual([{ heading: 'Pro', text: '$10 per month' }]);
+    expect(changed.added).toEqual([
+      { heading: 'Pro', text: '$12 per month' },
+      { heading: 'Team', text: '## Enterprise\n\nContact us' },
+    ]);
+    expect(changed.diff).toContain('--- https://www.example.com/pricing#pro');
+    expect(changed.diff).toContain('-$10 per month\n+$12 per month');
+  });
+
+  it('should keep separate snapshots per selector and prune old versions', async () => {
+    for (const price of ['$1', '$2', '$3']) {
+      servePage(`Price: ${price}`);
+      await check(['https://example.com/pricing'], '#plans');
+    }
+    servePage('Price: $3');
+    const [other] = await check(['https://example.com/pricing'], '#faq');
+    expect(other.firstSnapshot).toBe(true);
+
+    const files = readdirSync(directory);
+    expect(files).toHaveLength(2);
+    const versions = files
+      .map((file) => JSON.parse(readFileSync(join(directory, file), 'utf8')))
+      .find((file) => file.selector === '#plans').snapshots;
+    expect(versions.map((version: { content: string }) => version.content)).toEqual([
+      'Price: $2',
+      'Price: $3',
+    ]);
+  });
+
+  it('should keep separate snapshots per set of extraction options', async () => {
+    const url = 'https://example.com/pricing';
+    servePage('Price: $1\n\nUpdated 5 minutes ago');
+    await check([url]);
+
+    // Content extracted another way starts its own history
+    servePage('Price: $1');
+    const [excluded] = await check([url], undefined, { excludeSelectors: ['.stamp', '.ad'] });
+    expect(excluded).toMatchObject({ changed: false, firstSnapshot: true });
+    const [tables] = await check([url], undefined, { gfmTables: true });
+    expect(tables.firstSnapshot).toBe(true);
+    const [readability] = await check([url], undefined, { extractionMode: 'readability' });
+    expect(readability.firstSnapshot).toBe(true);
+
+    // Defaults and the order of excluded selectors do not split histories
+    const [reordered] = await check([url], undefined, { excludeSelectors: ['.ad', '.stamp'] });
+    expect(reordered).toMatchObject({ changed: false, firstSnapshot: false });
+    servePage('Price: $1\n\nUpdated 5 minutes ago');
+    const [same] = await check([url], undefined, { extractionMode: 'auto', gfmTables: false });
+    expect(same).toMatchObject({ changed: false, firstSnapshot: false });
+    expect(readdirSync(directory)).toHaveLength(4);
+  });
+
+  it('should report fetch errors per URL', async () => {
+    fetchWebPage.mockRejectedValue(
+      Object.assign(new Error('HTTP 404: Not Found'), { statusCode: 404 })
+    );
+    const [result] = await check(['https://example.com/missing']);
+    expect(result).toMatchObject({
+      url: 'https://example.com/missing',
+      changed: false,
+      error: 'HTTP 404: Not Found',
+    });
+    expect(readdirSync(directory)).toHaveLength(0);
+  });
+});
+
+describe('normalizeSnapshot', () => {
+  it('should even out line endings, trailing spaces and blank lines', () => {
+    expect(normalizeSnapshot('\n# A  \r\n\r\n\r\n\r\ntext\t\n\n')).toBe('# A\n\ntext');
+  });
+});
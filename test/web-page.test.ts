@@ -1,4 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
 import { webPageTool } from '../src/tools/web-page';
 
 // Mock the spider-rs library
@@ -29,6 +30,25 @@ vi.mock('@spider-rs/spider-rs', () => {
   };
 });
 
+const { fetchMock } = vi.hoisted(() => ({ fetchMock: vi.fn() }));
+
+vi.mock('node-fetch', () => ({ default: fetchMock }));
+
+// Robots.txt and host pacing have their own tests
+vi.stubEnv('MCP_RESPECT_ROBOTS_TXT', 'false');
+vi.stubEnv('MCP_HOST_DELAY_MS', '0');
+
+function htmlResponse(url: string, html: string) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    url,
+    headers: { get: () => 'text/html; charset=utf-8' },
+    arrayBuffer: async () => new TextEncoder().encode(html).buffer,
+  };
+}
+
 describe('webPageTool', () => {
   it('should fetch a single web page successfully', async () => {
     // Arrange
@@ -235,8 +255,68 @@ describe('webPageTool', () => {
     // Assert
     expect(result.content[0].type).toBe('text');
     const parsedContent = JSON.parse(result.content[0].text);
-    expect(parsedContent[0].content.length).toBe(53); // 50 + '...'
-    expect(parsedContent[0].content).toMatch(/.+...$/);
+    // Cut at the last word boundary inside the limit
+    expect(parsedContent[0].content).toBe(
+      'This is a very long sentence number 0. This is a'
+    );
+    expect(parsedContent[0].hasMore).toBe(true);
+    expect(parsedContent[0].nextOffset).toBe(49);
+    expect(parsedContent[0].totalLength).toBeGreaterThan(40000);
+    vi.useRealTimers();
+  }, 10000);
+
+  it('should read the next chunk from the cached page', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'setImmediate'] });
+    vi.setSystemTime(new Date(2025, 0, 1));
+    const paragraphs = Array.from(
+      { length: 6 },
+      (_, i) => `<p>Paragraph ${i} explains one more detail of the topic.</p>`
+    ).join('');
+
+    const scrapes = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(Website).mockImplementation(() => {
+      const mockWebsite = {
+        getPages: vi.fn().mockReturnValue([
+          {
+            content: `<html><head><title>Paged</title></head><body><main>${paragraphs}</main></body></html>`,
+            url: 'https://paged.com',
+            statusCode: 200,
+          },
+        ]),
+        withHeaders: vi.fn(),
+        scrape: scrapes,
+        build: vi.fn().mockReturnThis(),
+        withChromeIntercept: vi.fn().mockReturnThis(),
+        withBudget: vi.fn().mockReturnThis(),
+      };
+      return mockWebsite as never;
+    });
+
+    const read = async (startIndex: number) => {
+      const resultPromise = webPageTool({
+        urls: ['https://paged.com'],
+        includeImages: false,
+        includeLinks: false,
+        maxLength: 120,
+        startIndex,
+        maxRetries: 3,
+        retryDelay: 1000,
+        concurrency: 5,
+      } as never);
+      await vi.runAllTimersAsync();
+      return JSON.parse((await resultPromise).content[0].text)[0];
+    };
+
+    const first = await read(0);
+    expect(first.content).toBe(
+      'Paragraph 0 explains one more detail of the topic.\n\nParagraph 1 explains one more detail of the topic.'
+    );
+    expect(first.hasMore).toBe(true);
+
+    const second = await read(first.nextOffset);
+    expect(second.content).toMatch(/^Paragraph 2 /);
+    expect(second.totalLength).toBe(first.totalLength);
+    expect(scrapes).toHaveBeenCalledTimes(1);
     vi.useRealTimers();
   }, 10000);
 
@@ -385,4 +465,405 @@ describe('webPageTool', () => {
     
     vi.useRealTimers();
   }, 10000);
-});
\ No newline at end of file
+
+  it('should convert only the selected nodes minus excluded ones', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'setImmediate'] });
+    vi.setSystemTime(new Date(2025, 0, 1));
+    const scrapes = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(Website).mockImplementation(() => {
+      const mockWebsite = {
+        getPages: vi.fn().mockReturnValue([
+          {
+            content: `<html><head><title>Releases</title></head><body>
+              <main><p>Welcome to the project.</p></main>
+              <section id="changelog">
+                <h2>Changelog</h2>
+                <p>v2.0 adds streaming.</p>
+                <div class="ad">Buy now</div>
+              </section>
+            </body></html>`,
+            url: 'https://selector.com',
+            statusCode: 200,
+          },
+        ]),
+        withHeaders: vi.fn(),
+        scrape: scrapes,
+        build: vi.fn().mockReturnThis(),
+        withChromeIntercept: vi.fn().mockReturnThis(),
+        withBudget: vi.fn().mockReturnThis(),
+      };
+      return mockWebsite as never;
+    });
+
+    const resultPromise = webPageTool({
+      urls: ['https://selector.com', 'https://selector.com/missing'],
+      includeImages: false,
+      includeLinks: false,
+      maxLength: 1000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      concurrency: 1,
+      selector: '#changelog',
+      excludeSelectors: ['.ad'],
+    } as never);
+    await vi.runAllTimersAsync();
+    const [found] = JSON.parse((await resultPromise).content[0].text);
+
+    expect(found.content).toContain('## Changelog');
+    expect(found.content).toContain('v2.0 adds streaming.');
+    expect(found.content).not.toContain('Welcome');
+    expect(found.content).not.toContain('Buy now');
+
+    const missingPromise = webPageTool({
+      urls: ['https://selector.com/missing'],
+      includeImages: false,
+      includeLinks: false,
+      maxLength: 1000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      concurrency: 1,
+      selector: 'table.pricing',
+    } as never);
+    await vi.runAllTimersAsync();
+    const [missing] = JSON.parse((await missingPromise).content[0].text);
+
+    expect(missing.error).toBe(
+      'Selector "table.pricing" matched no elements on https://selector.com/missing'
+    );
+    // Two pages for the first call, one for the second: no retries
+    expect(scrapes).toHaveBeenCalledTimes(3);
+    vi.useRealTimers();
+  }, 10000);
+
+  it('should render tables as pipe tables and return them as JSON', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'setImmediate'] });
+    vi.setSystemTime(new Date(2025, 0, 1));
+    vi.mocked(Website).mockImplementationOnce(() => {
+      const mockWebsite = {
+        getPages: vi.fn().mockReturnValue([
+          {
+            content:
+              '<html><head><title>Specs</title></head><body><main><h1>Specs</h1><table><tr><th>Size</th><th>Weight</th></tr><tr><td>M</td><td>1 kg</td></tr></table></main></body></html>',
+            url: 'https://tables.com',
+            statusCode: 200,
+          },
+        ]),
+        withHeaders: vi.fn(),
+        scrape: vi.fn().mockResolvedValue(undefined),
+        build: vi.fn().mockReturnThis(),
+        withChromeIntercept: vi.fn().mockReturnThis(),
+        withBudget: vi.fn().mockReturnThis(),
+      };
+      return mockWebsite as never;
+    });
+
+    const resultPromise = webPageTool({
+      urls: ['https://tables.com'],
+      includeImages: false,
+      includeLinks: false,
+      maxLength: 1000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      concurrency: 5,
+      extractTables: true,
+      gfmTables: true,
+    } as never);
+    await vi.runAllTimersAsync();
+    const [page] = JSON.parse((await resultPromise).content[0].text);
+
+    expect(page.content).toBe(
+      '# Specs\n\n| Size | Weight |\n| --- | --- |\n| M | 1 kg |'
+    );
+    expect(page.tables).toEqual([
+      { headers: ['Size', 'Weight'], rows: [['M', '1 kg']] },
+    ]);
+    vi.useRealTimers();
+  }, 10000);
+
+  it('should read PDFs page by page', async () => {
+    const bytes = readFileSync(new URL('./fixtures/sample.pdf', import.meta.url));
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      url: 'https://docs.example/handbook.pdf',
+      headers: { get: () => 'application/pdf' },
+      arrayBuffer: async () =>
+        bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length),
+    });
+
+    const result = await webPageTool({
+      urls: ['https://docs.example/handbook.pdf'],
+      includeImages: false,
+      includeLinks: false,
+      maxLength: 45,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    });
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.error).toBeUndefined();
+    expect(page.title).toBe('Node.js Streams Handbook');
+    expect(page.content).toBe('## Page 1\n\nStreams move data in chunks.');
+    expect(page.hasMore).toBe(true);
+    expect(page.metadata).toEqual({
+      author: 'Ada Lovelace',
+      publishDate: '2024-03-05T10:00:00.000Z',
+      pageCount: 2,
+    });
+  });
+
+  it('should pretty-print JSON filtered by a JSONPath', async () => {
+    const body = JSON.stringify({ items: [{ name: 'a' }, { name: 'b' }] });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      url: 'https://api.example/items.json',
+      headers: { get: () => 'application/json; charset=utf-8' },
+      arrayBuffer: async () => new TextEncoder().encode(body).buffer,
+    });
+
+    const result = await webPageTool({
+      urls: ['https://api.example/items.json'],
+      jsonPath: '$.items[*].name',
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.error).toBeUndefined();
+    expect(page.title).toBe('items.json');
+    expect(page.contentType).toBe('application/json');
+    expect(page.content).toBe('[\n  "a",\n  "b"\n]');
+  });
+
+  it('should convert DOCX documents to markdown', async () => {
+    const bytes = readFileSync(new URL('./fixtures/sample.docx', import.meta.url));
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      url: 'https://docs.example/notes.docx',
+      headers: { get: () => 'application/octet-stream' },
+      arrayBuffer: async () =>
+        bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length),
+    });
+
+    const result = await webPageTool({
+      urls: ['https://docs.example/notes.docx'],
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.error).toBeUndefined();
+    expect(page.title).toBe('notes.docx');
+    expect(page.contentType).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(page.content).toBe('# Release Notes\n\nVersion 2 adds **streaming**.');
+  });
+
+  it('should report pages disallowed by robots.txt', async () => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => 'User-agent: *\nDisallow: /admin',
+    });
+
+    const result = await webPageTool(
+      {
+        urls: ['https://robots.example/admin/users'],
+        maxLength: 1000,
+        maxRetries: 3,
+        retryDelay: 1,
+        concurrency: 5,
+      } as never,
+      {
+        respectRobotsTxt: true,
+        userAgent: 'mcp-web-tools',
+        hostConcurrency: 2,
+        hostDelay: 0,
+      }
+    );
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.blockedByRobots).toBe(true);
+    expect(page.error).toBe(
+      'Blocked by robots.txt: https://robots.example/admin/users is disallowed for mcp-web-tools'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve static pages over plain HTTP without the browser', async () => {
+    const html = `<html><head><title>Static</title></head><body><main><h1>Docs</h1><p>${'Plain server-rendered text. '.repeat(20)}</p></main></body></html>`;
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(htmlResponse('https://static.example/', html));
+    vi.mocked(Website).mockClear();
+
+    const result = await webPageTool({
+      urls: ['https://static.example/'],
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.title).toBe('Static');
+    expect(page.renderedWith).toBe('static');
+    expect(page.content).toContain('# Docs');
+    expect(Website).not.toHaveBeenCalled();
+  });
+
+  it('should decode pages in their declared charset', async () => {
+    const html = `<html><head><title>Café</title></head><body><main><h1>Menü</h1><p>${'Crème brûlée à la carte. '.repeat(20)}</p></main></body></html>`;
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({
+      ...htmlResponse('https://latin1.example/', html),
+      headers: { get: () => 'text/html; charset=iso-8859-1' },
+      arrayBuffer: async () => new Uint8Array(Buffer.from(html, 'latin1')).buffer,
+    });
+
+    const result = await webPageTool({
+      urls: ['https://latin1.example/'],
+      render: 'static',
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.title).toBe('Café');
+    expect(page.content).toContain('# Menü');
+    expect(page.content).toContain('Crème brûlée à la carte.');
+  });
+
+  it('should render JavaScript shells in the browser in auto mode only', async () => {
+    const shell =
+      '<html><head><title>App</title></head><body><noscript>You need to enable JavaScript to run this app.</noscript><div id="root"></div><script src="/app.js"></script></body></html>';
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(htmlResponse('https://app.example/', shell));
+    const browser = {
+      getPages: vi.fn().mockReturnValue([
+        {
+          content:
+            '<html><head><title>App</title></head><body><div id="root"><h1>Dashboard</h1></div></body></html>',
+          url: 'https://app.example/',
+          statusCode: 200,
+        },
+      ]),
+      withHeaders: vi.fn(),
+      scrape: vi.fn().mockResolvedValue(undefined),
+      build: vi.fn().mockReturnThis(),
+      withChromeIntercept: vi.fn().mockReturnThis(),
+      withBudget: vi.fn().mockReturnThis(),
+    };
+    vi.mocked(Website).mockClear();
+    vi.mocked(Website).mockImplementationOnce(() => browser as never);
+
+    const auto = await webPageTool({
+      urls: ['https://app.example/'],
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [rendered] = JSON.parse(auto.content[0].text);
+
+    expect(rendered.renderedWith).toBe('browser');
+    expect(rendered.content).toContain('# Dashboard');
+    expect(Website).toHaveBeenCalledWith('https://app.example/');
+    // The browser fetches the page alone, not the pages it links to
+    expect(browser.withBudget).toHaveBeenCalledWith({ '*': 1 });
+
+    vi.mocked(Website).mockClear();
+    const staticOnly = await webPageTool({
+      urls: ['https://app.example/'],
+      render: 'static',
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [served] = JSON.parse(staticOnly.content[0].text);
+
+    expect(served.renderedWith).toBe('static');
+    expect(served.content).not.toContain('Dashboard');
+    expect(Website).not.toHaveBeenCalled();
+  });
+
+  it('should read metadata before removing excluded elements', async () => {
+    const html = `<html><head><title>Post</title><meta property="og:title" content="Shared title"><link rel="canonical" href="https://blog.example/post"><script type="application/ld+json">{"@type":"Article","author":{"name":"Sam"}}</script></head><body><main><h1>Post</h1><p>${'Article text. '.repeat(20)}</p><script>track()</script></main></body></html>`;
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(htmlResponse('https://blog.example/post', html));
+
+    const result = await webPageTool({
+      urls: ['https://blog.example/post'],
+      excludeSelectors: ['script', 'head *'],
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [page] = JSON.parse(result.content[0].text);
+
+    expect(page.metadata.canonicalUrl).toBe('https://blog.example/post');
+    expect(page.metadata.openGraph).toMatchObject({ title: 'Shared title' });
+    expect(page.metadata.jsonLd).toEqual([
+      { '@type': 'Article', author: { name: 'Sam' } },
+    ]);
+    expect(page.content).not.toContain('track()');
+  });
+
+  it('should send request options and redact their credentials', async () => {
+    const html = `<html><head><title>Account</title></head><body><main><h1>Welcome back</h1><p>Signed in with session abc-session-42. ${'Account details. '.repeat(20)}</p></main></body></html>`;
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(htmlResponse('https://account.example/', html));
+    vi.mocked(Website).mockClear();
+
+    const result = await webPageTool({
+      urls: ['https://account.example/'],
+      request: {
+        method: 'POST',
+        body: '{"view":"summary"}',
+        headers: { 'Content-Type': 'application/json' },
+        cookies: { session: 'abc-session-42' },
+        auth: { type: 'bearer', token: 'secret-token' },
+      },
+      maxLength: 1000,
+      maxRetries: 1,
+      retryDelay: 1,
+      concurrency: 5,
+    } as never);
+    const [page] = JSON.parse(result.content[0].text);
+
+    // A request body rules out the browser even in auto mode
+    expect(Website).not.toHaveBeenCalled();
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"view":"summary"}');
+    expect(init.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      Cookie: 'session=abc-session-42',
+      Authorization: 'Bearer secret-token',
+    });
+
+    expect(page.requestHeaders).toEqual({
+      Authorization: '[REDACTED]',
+      'Content-Type': 'application/json',
+      Cookie: '[REDACTED]',
+    });
+    expect(page.content).toContain('session [REDACTED]');
+    expect(result.content[0].text).not.toContain('abc-session-42');
+    expect(result.content[0].text).not.toContain('secret-token');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { webResearchTool } from '../src/tools/web-research';
+
+const { performWebSearch, fetchWebPage } = vi.hoisted(() => ({
+  performWebSearch: vi.fn(),
+  fetchWebPage: vi.fn(),
+}));
+
+vi.mock('../src/tools/web-search', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/tools/web-search')>()),
+  performWebSearch,
+}));
+
+vi.mock('../src/tools/web-page', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/tools/web-page')>()),
+  fetchWebPage,
+}));
+
+function result(url: string, position: number) {
+  return {
+    title: `Title ${position}`,
+    url,
+    snippet: `Snippet ${position}`,
+    source: new URL(url).hostname,
+    position,
+  };
+}
+
+const politeness = {
+  respectRobotsTxt: false,
+  userAgent: 'mcp-web-tools',
+  hostConcurrency: 0,
+  hostDelay: 0,
+};
+
+describe('webResearchTool', () => {
+  it('should return numbered sources and report failed pages individually', async () => {
+    performWebSearch.mockResolvedValue({
+      provider: 'duckduckgo',
+      searchQuery: 'http/3',
+      results: [
+        result('https://a.com/', 1),
+        result('https://b.com/', 2),
+        result('https://c.com/', 3),
+      ],
+      filters: { applied: {}, ignored: {} },
+    });
+    fetchWebPage.mockImplementation(async ({ url }: { url: string }) => {
+      if (url === 'https://b.com/') {
+        throw new Error('HTTP 404');
+      }
+      return { url, title: 'Page', content: `Content of ${url}` };
+    });
+
+    const response = await webResearchTool(
+      {
+        query: 'http/3',
+        topN: 2,
+        maxLength: 1000,
+        concurrency: 2,
+        maxRetries: 1,
+        retryDelay: 1,
+      } as never,
+      { providers: ['duckduckgo'] },
+      politeness
+    );
+
+    expect(performWebSearch).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'http/3', maxResults: 2 }),
+      { providers: ['duckduckgo'] }
+    );
+    expect(fetchWebPage).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://a.com/', maxLength: 1000 }),
+      politeness
+    );
+
+    const body = JSON.parse(response.content[0].text);
+    expect(response.isError).toBeUndefined();
+    expect(body.sources).toEqual([
+      {
+        index: 1,
+        title: 'Title 1',
+        url: 'https://a.com/',
+        snippet: 'Snippet 1',
+        content: 'Content of https://a.com/',
+      },
+      {
+        index: 2,
+        title: 'Title 2',
+        url: 'https://b.com/',
+        snippet: 'Snippet 2',
+        error: 'HTTP 404',
+      },
+    ]);
+  });
+});
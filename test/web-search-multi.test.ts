@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { fuseResults } from '../src/tools/web-search-multi';
+
+function result(url: string, position: number, snippet = '') {
+  return {
+    title: url,
+    url,
+    snippet,
+    source: new URL(url).hostname,
+    position,
+  };
+}
+
+describe('fuseResults', () => {
+  it('should rank URLs found by several queries above single hits', () => {
+    const fused = fuseResults([
+      {
+        query: 'node streams',
+        results: [
+          result('https://a.com/', 1),
+          result('https://b.com/', 2),
+        ],
+      },
+      {
+        query: 'nodejs backpressure',
+        results: [
+          result('https://c.com/', 1),
+          result('https://www.b.com/?utm_source=x', 2, 'Longer snippet'),
+        ],
+      },
+    ]);
+
+    expect(fused.map((r) => r.url)).toEqual([
+      'https://b.com/',
+      'https://a.com/',
+      'https://c.com/',
+    ]);
+    expect(fused[0]).toMatchObject({
+      position: 1,
+      snippet: 'Longer snippet',
+      matchedQueries: ['node streams', 'nodejs backpressure'],
+    });
+    expect(fused[0].score).toBeCloseTo(2 / 62);
+    expect(fused[1].matchedQueries).toEqual(['node streams']);
+  });
+});